@@ -1,13 +1,178 @@
+import type { Metadata } from "next";
+import { cookies, headers } from "next/headers";
 import { redirect, RedirectType } from "next/navigation";
 // import { RedirectError } from "next/dist/client/components/redirect";
-import { getShortenedUrl, incrementClicks, initializeDatabase } from "@/lib/db";
+import { Ban, CalendarClock, Eye, Lock, TimerOff } from "lucide-react";
+import Link from "next/link";
+import {
+  getShortenedUrl,
+  incrementClicks,
+  incrementVariantClicks,
+  initializeDatabase,
+  type ShortenedUrl,
+} from "@/lib/db";
+import {
+  buildRedirectUrl,
+  getActivationState,
+  getClickSource,
+  isExpired,
+  QR_SOURCE,
+  SOURCE_PARAM,
+} from "@/lib/links";
+import { unlockCookieName, verifyUnlockToken } from "@/lib/password";
+import { resolveCountry } from "@/lib/geo";
+import { chooseDestination, needsCountry } from "@/lib/rules";
+import { VISITOR_COOKIE } from "@/lib/targeting";
+import LinkStatusPage from "@/components/ui/LinkStatusPage";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+const DEFAULT_COMING_SOON_MESSAGE =
+  "This link is not active yet. Please come back later.";
+
+function formatDateTime(value: string) {
+  return new Date(value).toLocaleString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "short",
+  });
+}
+
+// A short code followed by "+" (possibly percent-encoded) asks for the preview page
+const PREVIEW_SUFFIX = /(?:\+|%2B)$/i;
+
+// Why a link would not redirect right now, if it would not
+function getUnavailableReason(urlData: ShortenedUrl) {
+  if (isExpired(urlData)) {
+    return `This link expired on ${formatDateTime(urlData.expires_at!)}.`;
+  }
+  const activationState = getActivationState(urlData);
+  if (activationState === "ended") {
+    return `This link was active until ${formatDateTime(urlData.active_until!)}.`;
+  }
+  if (activationState === "scheduled") {
+    return `This link becomes active on ${formatDateTime(urlData.active_from!)}.`;
+  }
+  if (urlData.max_clicks != null && urlData.clicks >= urlData.max_clicks) {
+    return "This link has reached its maximum number of visits.";
+  }
+  return null;
+}
+
+// Shows where a link leads without following it or counting a click
+function LinkPreview({
+  shortCode,
+  urlData,
+}: {
+  shortCode: string;
+  urlData: ShortenedUrl;
+}) {
+  // The destination of a password-protected link is only revealed after unlocking
+  const isProtected = !!urlData.password_hash;
+  const unavailableReason = getUnavailableReason(urlData);
+  return (
+    <LinkStatusPage
+      icon={<Eye className="h-8 w-8 text-purple-600" />}
+      title={
+        urlData.title ||
+        (!isProtected && urlData.page_title) ||
+        "Link preview"
+      }
+      description={
+        <>
+          The short link <span className="font-mono">/{shortCode}</span> leads
+          to
+          {isProtected ? " a password-protected destination." : ":"}
+        </>
+      }
+    >
+      <div className="space-y-3 text-left">
+        {!isProtected && (
+          <div className="rounded-lg border border-gray-200 bg-white p-3 space-y-2">
+            {urlData.image_url && (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img
+                src={urlData.image_url}
+                alt=""
+                className="w-full max-h-48 object-cover rounded-md"
+              />
+            )}
+            <div className="flex items-center gap-2 min-w-0">
+              {urlData.favicon_url && (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img
+                  src={urlData.favicon_url}
+                  alt=""
+                  className="h-4 w-4 shrink-0"
+                />
+              )}
+              <span className="text-sm text-blue-600 break-all">
+                {urlData.original_url}
+              </span>
+            </div>
+            {urlData.page_title && urlData.page_title !== urlData.title && (
+              <p className="font-semibold text-gray-800">{urlData.page_title}</p>
+            )}
+            {urlData.page_description && (
+              <p className="text-sm text-gray-600">{urlData.page_description}</p>
+            )}
+          </div>
+        )}
+        {urlData.description && (
+          <p className="text-gray-700 whitespace-pre-line">
+            {urlData.description}
+          </p>
+        )}
+        <p className="text-sm text-gray-500">
+          Created {formatDateTime(urlData.created_at)} ·{" "}
+          {urlData.clicks === 1 ? "1 click" : `${urlData.clicks} clicks`}
+        </p>
+        {unavailableReason && (
+          <p className="text-sm text-amber-700">{unavailableReason}</p>
+        )}
+      </div>
+      {!unavailableReason && (
+        <Button
+          asChild
+          className="w-full h-12 bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white font-semibold"
+        >
+          <Link href={`/${encodeURIComponent(shortCode)}`}>
+            Continue to destination
+          </Link>
+        </Button>
+      )}
+    </LinkStatusPage>
+  );
+}
+
+// Messages for the outcome of a failed unlock attempt (see /api/unlock)
+const UNLOCK_ERRORS: Record<string, string> = {
+  invalid: "Incorrect password, please try again.",
+  throttled: "Too many attempts. Please wait a few minutes and try again.",
+  error: "Something went wrong, please try again.",
+};
+
+// Link state (expiry, click counts) changes over time, never serve a cached render
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  robots: { index: false },
+};
 
 export default async function RedirectPage({
   params,
+  searchParams,
 }: {
   params: { shortCode: string };
+  searchParams: { [key: string]: string | string[] | undefined };
 }) {
-  const { shortCode } = params;
+  const isPreview = PREVIEW_SUFFIX.test(params.shortCode);
+  const shortCode = params.shortCode.replace(PREVIEW_SUFFIX, "");
+  // The QR marker only attributes the visit (see buildRedirectUrl)
+  const source = getClickSource(searchParams);
   let targetUrl = "/";
   try {
     console.log("🔍 Accessing short code:", shortCode);
@@ -25,20 +190,159 @@ export default async function RedirectPage({
     }
     console.log("✅ Found URL data:", urlData);
 
-    // Increment click counter (async, don't wait)
-    incrementClicks(shortCode).catch((error) =>
-      console.error("Error incrementing clicks:", error)
-    );
+    // The preview page never redirects nor counts a click
+    if (isPreview) {
+      console.log("👀 Previewing short URL:", shortCode);
+      return <LinkPreview shortCode={shortCode} urlData={urlData} />;
+    }
+
+    // Refuse expired links instead of redirecting; the middleware serves this
+    // page with 410 Gone, as pages cannot set a status code themselves
+    if (isExpired(urlData)) {
+      console.log("⌛ Short URL expired:", shortCode);
+      return (
+        <LinkStatusPage
+          icon={<TimerOff className="h-8 w-8 text-purple-600" />}
+          title="This link has expired"
+          description={
+            <>
+              The short link <span className="font-mono">/{shortCode}</span> was
+              only valid until {formatDateTime(urlData.expires_at!)}.
+            </>
+          }
+        />
+      );
+    }
+
+    // Scheduled links only resolve within their activation window
+    const activationState = getActivationState(urlData);
+    if (activationState === "ended") {
+      console.log("⌛ Short URL activation window ended:", shortCode);
+      return (
+        <LinkStatusPage
+          icon={<TimerOff className="h-8 w-8 text-purple-600" />}
+          title="This link is no longer active"
+          description={
+            <>
+              The short link <span className="font-mono">/{shortCode}</span> was
+              active until {formatDateTime(urlData.active_until!)}.
+            </>
+          }
+        />
+      );
+    }
+    if (activationState === "scheduled") {
+      console.log("⏳ Short URL not active yet:", shortCode);
+      return (
+        <LinkStatusPage
+          icon={<CalendarClock className="h-8 w-8 text-purple-600" />}
+          title="Coming soon"
+          description={
+            urlData.coming_soon_message ||
+            process.env.COMING_SOON_MESSAGE ||
+            DEFAULT_COMING_SOON_MESSAGE
+          }
+        >
+          <p className="text-sm text-gray-600">
+            Available from{" "}
+            <span className="font-semibold">
+              {formatDateTime(urlData.active_from!)}
+            </span>
+          </p>
+        </LinkStatusPage>
+      );
+    }
+
+    // Password-protected links ask for the password until a valid unlock cookie is present
+    if (
+      urlData.password_hash &&
+      !verifyUnlockToken(
+        shortCode,
+        urlData.password_hash,
+        cookies().get(unlockCookieName(shortCode))?.value
+      )
+    ) {
+      console.log("🔒 Short URL is password protected:", shortCode);
+      const unlockError =
+        typeof searchParams.unlock === "string"
+          ? UNLOCK_ERRORS[searchParams.unlock]
+          : undefined;
+      return (
+        <LinkStatusPage
+          icon={<Lock className="h-8 w-8 text-purple-600" />}
+          title="This link is password protected"
+          description="Enter the password to continue to the destination."
+        >
+          <form
+            method="POST"
+            action={`/api/unlock/${encodeURIComponent(shortCode)}${
+              source === "qr" ? `?${SOURCE_PARAM}=${QR_SOURCE}` : ""
+            }`}
+            className="space-y-3 text-left"
+          >
+            <Input
+              type="password"
+              name="password"
+              placeholder="Password"
+              required
+              autoFocus
+              className="h-12"
+            />
+            {unlockError && (
+              <p className="text-sm text-red-600">{unlockError}</p>
+            )}
+            <Button
+              type="submit"
+              className="w-full h-12 bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white font-semibold"
+            >
+              Continue
+            </Button>
+          </form>
+        </LinkStatusPage>
+      );
+    }
+
+    if (urlData.max_clicks == null) {
+      // Increment click counter (async, don't wait)
+      incrementClicks(shortCode, source).catch((error) =>
+        console.error("Error incrementing clicks:", error)
+      );
+    } else if (!(await incrementClicks(shortCode, source))) {
+      // Click-capped links only resolve while a click can still be claimed
+      console.log("🚫 Short URL click limit reached:", shortCode);
+      return (
+        <LinkStatusPage
+          icon={<Ban className="h-8 w-8 text-purple-600" />}
+          title="This link is no longer available"
+          description={
+            urlData.max_clicks === 1
+              ? "This was a one-time link and it has already been used."
+              : "This link has reached its maximum number of visits."
+          }
+        />
+      );
+    }
 
-    // Ensure the URL has a protocol
-    targetUrl = urlData.original_url;
-    if (!targetUrl.startsWith("http://") && !targetUrl.startsWith("https://")) {
-      targetUrl = "https://" + targetUrl;
+    // Routing rules and targeting send visitors by time, device, language or
+    // country elsewhere, A/B tested links to one of their variants
+    const destination = chooseDestination(urlData, {
+      userAgent: headers().get("user-agent"),
+      country: needsCountry(urlData) ? await resolveCountry(headers()) : null,
+      acceptLanguage: headers().get("accept-language"),
+      visitorId: cookies().get(VISITOR_COOKIE)?.value ?? null,
+      now: new Date(),
+    });
+    if (destination.variant) {
+      console.log("🧪 Serving variant:", destination.variant.id, destination.variant.url);
+      incrementVariantClicks(destination.variant.id).catch((error) =>
+        console.error("Error incrementing variant clicks:", error)
+      );
     }
+    targetUrl = buildRedirectUrl(urlData, searchParams, destination.url);
     console.log("🚀 Redirecting to:", targetUrl);
 
     // Redirect to the original URL immediately
-    return redirect(targetUrl + "?from=slinker");
+    return redirect(targetUrl);
   } catch (error: unknown) {
     // TODO: Strangeness? Why does Nextjs normally throw an exception to redirect?
     if (error instanceof Error && error.message == "NEXT_REDIRECT") {
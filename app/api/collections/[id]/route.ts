@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  initializeDatabase,
+  getCollection,
+  getAllShortenedUrls,
+  renameCollection,
+  deleteCollection,
+  CollectionNameConflictError
+} from '@/lib/db'
+import {
+  formatCollection,
+  formatShortenedUrl,
+  parseCollectionId,
+  validateCollectionName
+} from '@/lib/links'
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "../../auth/[...nextauth]/authOptions";
+
+// A collection with its aggregates and (latest) links
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+  const userEmail = session?.user?.email;
+  if (!userEmail) {
+    return NextResponse.json(
+      { error: 'userEmail is required' },
+      { status: 401 }
+    );
+  }
+  const id = parseCollectionId(params.id)
+  if ('error' in id) {
+    return NextResponse.json(
+      { error: id.error },
+      { status: 400 }
+    )
+  }
+  try {
+    await initializeDatabase()
+    const collection = await getCollection(id.value, userEmail)
+    if (!collection) {
+      return NextResponse.json(
+        { error: 'Not found or not authorized' },
+        { status: 404 }
+      )
+    }
+    const links = await getAllShortenedUrls(userEmail, 50, { collectionId: id.value })
+    return NextResponse.json({
+      ...formatCollection(collection),
+      links: links.map(formatShortenedUrl)
+    })
+  } catch (error) {
+    console.error('Error fetching collection:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Rename a collection
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+  const userEmail = session?.user?.email;
+  if (!userEmail) {
+    return NextResponse.json(
+      { error: 'userEmail is required' },
+      { status: 401 }
+    );
+  }
+  const id = parseCollectionId(params.id)
+  if ('error' in id) {
+    return NextResponse.json(
+      { error: id.error },
+      { status: 400 }
+    )
+  }
+  try {
+    const { name } = await request.json()
+    const nameError = validateCollectionName(name)
+    if (nameError) {
+      return NextResponse.json(
+        { error: nameError },
+        { status: 400 }
+      )
+    }
+    await initializeDatabase()
+    const renamed = await renameCollection(id.value, userEmail, name.trim())
+    const collection = renamed && (await getCollection(id.value, userEmail))
+    if (!collection) {
+      return NextResponse.json(
+        { error: 'Not found or not authorized' },
+        { status: 404 }
+      )
+    }
+    return NextResponse.json(formatCollection(collection))
+  } catch (error) {
+    if (error instanceof CollectionNameConflictError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+    console.error('Error renaming collection:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Delete a collection; its links are kept
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+  const userEmail = session?.user?.email;
+  if (!userEmail) {
+    return NextResponse.json(
+      { error: 'userEmail is required' },
+      { status: 401 }
+    );
+  }
+  const id = parseCollectionId(params.id)
+  if ('error' in id) {
+    return NextResponse.json(
+      { error: id.error },
+      { status: 400 }
+    )
+  }
+  try {
+    await initializeDatabase()
+    const deleted = await deleteCollection(id.value, userEmail)
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Not found or not authorized' },
+        { status: 404 }
+      )
+    }
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting collection:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
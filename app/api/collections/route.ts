@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  initializeDatabase,
+  getCollections,
+  createCollection,
+  CollectionNameConflictError
+} from '@/lib/db'
+import { formatCollection, validateCollectionName } from '@/lib/links'
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "../auth/[...nextauth]/authOptions";
+
+// List the owner's collections with link and click counts
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  const userEmail = session?.user?.email;
+  if (!userEmail) {
+    return NextResponse.json(
+      { error: 'userEmail is required' },
+      { status: 401 }
+    );
+  }
+  try {
+    await initializeDatabase()
+    const data = await getCollections(userEmail)
+    return NextResponse.json(data.map(formatCollection))
+  } catch (error) {
+    console.error('Error fetching collections:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  const userEmail = session?.user?.email;
+  if (!userEmail) {
+    return NextResponse.json(
+      { error: 'userEmail is required' },
+      { status: 401 }
+    );
+  }
+  try {
+    const { name } = await request.json()
+    const nameError = validateCollectionName(name)
+    if (nameError) {
+      return NextResponse.json(
+        { error: nameError },
+        { status: 400 }
+      )
+    }
+    await initializeDatabase()
+    const collection = await createCollection(userEmail, name.trim())
+    return NextResponse.json(
+      formatCollection({ ...collection, link_count: 0, clicks: 0 })
+    )
+  } catch (error) {
+    if (error instanceof CollectionNameConflictError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+    console.error('Error creating collection:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { initializeDatabase, purgeDeletedShortenedUrls } from '@/lib/db'
+
+export const dynamic = 'force-dynamic'
+
+// Scheduled job (see vercel.json) that permanently deletes links whose
+// retention period in the trash is over. Vercel Cron authenticates with
+// "Authorization: Bearer <CRON_SECRET>".
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+  try {
+    await initializeDatabase()
+    const purged = await purgeDeletedShortenedUrls()
+    return NextResponse.json({ purged })
+  } catch (error) {
+    console.error('Error purging trash:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
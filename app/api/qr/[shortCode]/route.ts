@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { initializeDatabase, getShortenedUrl } from '@/lib/db'
+import { QR_SOURCE, SOURCE_PARAM } from '@/lib/links'
+import { parseQrOptions, renderQrCode } from '@/lib/qr'
+
+// QR code of a short URL, as SVG or PNG (see parseQrOptions for the query parameters)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { shortCode: string } }
+) {
+  const parsed = parseQrOptions(request.nextUrl.searchParams)
+  if ('error' in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 })
+  }
+  try {
+    await initializeDatabase()
+    const urlData = await getShortenedUrl(params.shortCode)
+    if (!urlData) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+
+    // The marker lets visits from scans be counted apart from direct clicks
+    const shortUrl = `${request.nextUrl.origin}/${encodeURIComponent(urlData.short_code)}?${SOURCE_PARAM}=${QR_SOURCE}`
+    const { body, contentType } = await renderQrCode(shortUrl, parsed.options)
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': contentType,
+        'Cache-Control': 'public, max-age=3600',
+      },
+    })
+  } catch (error) {
+    console.error('Error generating QR code:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
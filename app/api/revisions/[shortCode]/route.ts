@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  initializeDatabase,
+  getLinkRevisions,
+  rollbackShortenedUrl
+} from '@/lib/db'
+import { formatLinkRevision, formatShortenedUrl } from '@/lib/links'
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "../../auth/[...nextauth]/authOptions";
+
+// List the destination changes of the owner's link, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { shortCode: string } }
+) {
+  const session = await getServerSession(authOptions);
+  const userEmail = session?.user?.email;
+  if (!userEmail) {
+    return NextResponse.json(
+      { error: 'userEmail is required' },
+      { status: 401 }
+    );
+  }
+  try {
+    await initializeDatabase()
+    const revisions = await getLinkRevisions(params.shortCode, userEmail)
+    if (!revisions) {
+      return NextResponse.json(
+        { error: 'Not found or not authorized' },
+        { status: 404 }
+      )
+    }
+    return NextResponse.json(revisions.map(formatLinkRevision))
+  } catch (error) {
+    console.error('Error fetching revisions:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Roll the link back to the destination it had before the given revision
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { shortCode: string } }
+) {
+  const session = await getServerSession(authOptions);
+  const userEmail = session?.user?.email;
+  if (!userEmail) {
+    return NextResponse.json(
+      { error: 'userEmail is required' },
+      { status: 401 }
+    );
+  }
+  try {
+    const { revisionId } = await request.json()
+    if (typeof revisionId !== 'string' || !/^\d+$/.test(revisionId)) {
+      return NextResponse.json(
+        { error: 'revisionId is required' },
+        { status: 400 }
+      )
+    }
+    await initializeDatabase()
+    const data = await rollbackShortenedUrl(params.shortCode, userEmail, revisionId)
+    if (!data) {
+      return NextResponse.json(
+        { error: 'Not found or not authorized' },
+        { status: 404 }
+      )
+    }
+    return NextResponse.json(formatShortenedUrl(data))
+  } catch (error) {
+    console.error('Error rolling back URL:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,173 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  initializeDatabase,
+  createShortenedUrls,
+  NewShortenedUrl
+} from '@/lib/db'
+import { parseCsv } from '@/lib/csv'
+import {
+  parseLinkInput,
+  toShortCodeSource,
+  toShortenedUrlOptions,
+  formatShortenedUrl
+} from '@/lib/links'
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "../../auth/[...nextauth]/authOptions";
+
+// Maximum number of rows accepted in one request
+const MAX_BULK_ROWS = 1000
+
+type BulkRow = Record<string, unknown>
+
+// Turn CSV text into rows; a header row naming a "url" column enables the
+// optional "alias", "title" and (comma-separated) "tags" columns, otherwise
+// every line is one URL (commas included, as in tracking parameters)
+function csvToRows(text: string): BulkRow[] {
+  const records = parseCsv(text)
+  if (records.length === 0) {
+    return []
+  }
+
+  const header = records[0].map(name => name.trim().toLowerCase())
+  if (!header.includes('url')) {
+    return records.map(record => ({ url: record.join(',').trim() }))
+  }
+
+  return records.slice(1).map(record => {
+    const row: BulkRow = {}
+    header.forEach((name, index) => {
+      if (name === 'url' || name === 'alias' || name === 'title' || name === 'tags') {
+        row[name] = record[index]?.trim()
+      }
+    })
+    return row
+  })
+}
+
+// Read rows from a JSON body ({ urls: [...] } or a bare array of URLs or
+// objects), an uploaded CSV file (multipart "file" field) or a raw CSV body
+async function readRows(request: NextRequest): Promise<BulkRow[] | null> {
+  const contentType = request.headers.get('content-type') || ''
+
+  if (contentType.includes('multipart/form-data')) {
+    const file = (await request.formData()).get('file')
+    if (!file || typeof file === 'string') {
+      return null
+    }
+    return csvToRows(await file.text())
+  }
+
+  if (contentType.includes('text/csv') || contentType.includes('text/plain')) {
+    return csvToRows(await request.text())
+  }
+
+  const body = await request.json()
+  const items = Array.isArray(body) ? body : body?.urls
+  if (!Array.isArray(items)) {
+    return null
+  }
+  return items.map(item =>
+    typeof item === 'string' ? { url: item } : (item ?? {})
+  )
+}
+
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  const userEmail = session?.user?.email;
+  if (!userEmail) {
+    return NextResponse.json(
+      { error: 'userEmail is required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    // Initialize database
+    await initializeDatabase()
+
+    const rows = await readRows(request).catch(() => null)
+    if (!rows) {
+      return NextResponse.json(
+        { error: 'Expected a JSON array of URLs or a CSV file' },
+        { status: 400 }
+      )
+    }
+    if (rows.length === 0) {
+      return NextResponse.json(
+        { error: 'No URLs provided' },
+        { status: 400 }
+      )
+    }
+    if (rows.length > MAX_BULK_ROWS) {
+      return NextResponse.json(
+        { error: `At most ${MAX_BULK_ROWS} URLs can be shortened at once` },
+        { status: 400 }
+      )
+    }
+
+    // Validate every row first; only valid rows go into the transaction
+    const report: Record<string, unknown>[] = []
+    const entries: NewShortenedUrl[] = []
+    const entryRows: number[] = []
+    const seenAliases = new Set<string>()
+
+    for (let index = 0; index < rows.length; index++) {
+      const row = rows[index]
+      const parsed = parseLinkInput(row)
+      if ('error' in parsed) {
+        report[index] = { row: index + 1, url: row.url ?? null, status: 'error', error: parsed.error }
+        continue
+      }
+      const { input } = parsed
+      if (input.alias) {
+        if (seenAliases.has(input.alias)) {
+          report[index] = { row: index + 1, url: input.url, status: 'error', error: `Alias "${input.alias}" is used more than once` }
+          continue
+        }
+        seenAliases.add(input.alias)
+      }
+      entries.push({
+        originalUrl: input.url,
+        shortCode: toShortCodeSource(input),
+        options: await toShortenedUrlOptions(input)
+      })
+      entryRows.push(index)
+    }
+
+    const results = await createShortenedUrls(entries, userEmail)
+    results.forEach((result, i) => {
+      const index = entryRows[i]
+      // Links that dedupe returned existed before, the request did not create them
+      report[index] = result.url
+        ? {
+            row: index + 1,
+            status: result.url.reused ? 'reused' : 'created',
+            ...formatShortenedUrl(result.url)
+          }
+        : {
+            row: index + 1,
+            url: rows[index].url,
+            status: 'error',
+            error: typeof entries[i].shortCode === 'string'
+              ? `Alias "${entries[i].shortCode}" is already taken`
+              : 'Failed to generate unique short code'
+          }
+    })
+
+    const created = results.filter(result => result.url && !result.url.reused).length
+    const reused = results.filter(result => result.url?.reused).length
+    return NextResponse.json({
+      total: rows.length,
+      created,
+      reused,
+      failed: rows.length - created - reused,
+      results: report
+    })
+  } catch (error) {
+    console.error('Error shortening URLs in bulk:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,13 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { nanoid } from 'nanoid'
 import { 
   initializeDatabase, 
   createShortenedUrl, 
-  shortCodeExists, 
   getAllShortenedUrls,
   checkDatabaseConnection,
-  deleteShortenedUrlByUser
+  deleteShortenedUrlByUser,
+  updateShortenedUrl,
+  getCollection,
+  ShortCodeConflictError,
+  InvalidScheduleError
 } from '@/lib/db'
+import { suggestAliases } from '@/lib/shortcode'
+import {
+  parseLinkInput,
+  parseLinkChanges,
+  parseTags,
+  parseCollectionId,
+  toShortCodeSource,
+  toShortenedUrlOptions,
+  formatShortenedUrl
+} from '@/lib/links'
 import { getServerSession } from "next-auth/next";
 import { authOptions } from "../auth/[...nextauth]/authOptions";
 
@@ -19,60 +31,61 @@ export async function POST(request: NextRequest) {
     // Initialize database
     await initializeDatabase()
 
-    const { url } = await request.json()
-
-    if (!url) {
+    const parsed = parseLinkInput(await request.json())
+    if ('error' in parsed) {
       return NextResponse.json(
-        { error: 'URL is required' },
+        { error: parsed.error },
         { status: 400 }
       )
     }
+    const { input } = parsed
 
-    // Validate URL
-    try {
-      new URL(url)
-    } catch {
+    // Use the human-chosen alias as short code, or generate short codes until
+    // one is free, escalating their length on collisions
+    const shortCode = toShortCodeSource(input)
+
+    // Insert into database
+    if (!userEmail) {
+      return NextResponse.json(
+        { error: 'userEmail is required' },
+        { status: 401 }
+      );
+    }
+    if (input.collectionId && !(await getCollection(input.collectionId, userEmail))) {
       return NextResponse.json(
-        { error: 'Invalid URL format' },
+        { error: 'Collection not found' },
         { status: 400 }
       )
     }
-
-    // Generate unique short code
-    let shortCode: string
-    let isUnique = false
-    let attempts = 0
-    const maxAttempts = 10
-
-    do {
-      shortCode = nanoid(8)
-      isUnique = !(await shortCodeExists(shortCode))
-      attempts++
-    } while (!isUnique && attempts < maxAttempts)
-
-    if (!isUnique) {
+    let data
+    try {
+      data = await createShortenedUrl(
+        input.url,
+        shortCode,
+        userEmail,
+        await toShortenedUrlOptions(input)
+      )
+    } catch (error) {
+      if (!(error instanceof ShortCodeConflictError)) {
+        throw error
+      }
+      if (typeof shortCode === 'string') {
+        return NextResponse.json(
+          {
+            error: `Alias "${shortCode}" is already taken`,
+            suggestions: await suggestAliases(shortCode)
+          },
+          { status: 409 }
+        )
+      }
       return NextResponse.json(
         { error: 'Failed to generate unique short code' },
         { status: 500 }
       )
     }
 
-    // Insert into database
-    if (!userEmail) {
-      return NextResponse.json(
-        { error: 'userEmail is required' },
-        { status: 401 }
-      );
-    }
-    const data = await createShortenedUrl(url, shortCode, userEmail)
-
-    return NextResponse.json({
-      id: data.id.toString(),
-      originalUrl: data.original_url,
-      shortCode: data.short_code,
-      createdAt: data.created_at,
-      clicks: data.clicks
-    })
+    // Tell a reused link apart from a new one, the request's settings did not create it
+    return NextResponse.json({ ...formatShortenedUrl(data), reused: !!data.reused })
   } catch (error) {
     console.error('Error shortening URL:', error)
     return NextResponse.json(
@@ -101,17 +114,35 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    // Filter by tags, given as ?tags=a,b or ?tags=a&tags=b; links must carry all of them
+    const tags = parseTags(request.nextUrl.searchParams.getAll('tags').join(','))
+    if ('error' in tags) {
+      return NextResponse.json(
+        { error: tags.error },
+        { status: 400 }
+      )
+    }
+
+    // Optionally list a single collection, given as ?collection=<id>
+    const collection = request.nextUrl.searchParams.get('collection')
+    const collectionId = collection ? parseCollectionId(collection) : undefined
+    if (collectionId && 'error' in collectionId) {
+      return NextResponse.json(
+        { error: collectionId.error },
+        { status: 400 }
+      )
+    }
+
     // Initialize database
     await initializeDatabase()
 
-    const data = await getAllShortenedUrls(userEmail, 50)
+    const data = await getAllShortenedUrls(userEmail, 50, {
+      tags: tags.value,
+      collectionId: collectionId?.value
+    })
 
     const formattedData = data.map(item => ({
-      id: item.id.toString(),
-      originalUrl: item.original_url,
-      shortCode: item.short_code,
-      createdAt: item.created_at,
-      clicks: item.clicks,
+      ...formatShortenedUrl(item),
       userEmail: item.userEmail
     }))
 
@@ -125,6 +156,75 @@ export async function GET(request: NextRequest) {
   }
 }
 
+export async function PATCH(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  const userEmail = session?.user?.email;
+  if (!userEmail) {
+    return NextResponse.json(
+      { error: 'userEmail is required' },
+      { status: 401 }
+    );
+  }
+  try {
+    const body = await request.json();
+    if (!body.shortCode) {
+      return NextResponse.json(
+        { error: 'shortCode is required' },
+        { status: 400 }
+      );
+    }
+    const parsed = await parseLinkChanges(body);
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: 400 }
+      );
+    }
+    await initializeDatabase();
+    const { collectionId } = parsed.changes;
+    if (collectionId && !(await getCollection(collectionId, userEmail))) {
+      return NextResponse.json(
+        { error: 'Collection not found' },
+        { status: 400 }
+      );
+    }
+    let data;
+    try {
+      data = await updateShortenedUrl(body.shortCode, userEmail, parsed.changes);
+    } catch (error) {
+      if (error instanceof InvalidScheduleError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+      if (!(error instanceof ShortCodeConflictError)) {
+        throw error;
+      }
+      return NextResponse.json(
+        {
+          error: `Alias "${error.shortCode}" is already taken`,
+          suggestions: await suggestAliases(error.shortCode)
+        },
+        { status: 409 }
+      );
+    }
+    if (!data) {
+      return NextResponse.json(
+        { error: 'Not found or not authorized' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json(formatShortenedUrl(data));
+  } catch (error) {
+    console.error('Error updating URL:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
 export async function DELETE(request: NextRequest) {
   const session = await getServerSession(authOptions);
   const userEmail = session?.user?.email;
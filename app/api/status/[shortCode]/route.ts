@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { initializeDatabase, getShortenedUrl } from '@/lib/db'
+import { isExpired } from '@/lib/links'
+
+// Expiry changes over time, never serve a cached response
+export const dynamic = 'force-dynamic'
+
+// Whether a short link has expired; asked by the middleware, which cannot reach the database
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { shortCode: string } }
+) {
+  try {
+    await initializeDatabase()
+    const urlData = await getShortenedUrl(params.shortCode)
+    if (!urlData) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+    return NextResponse.json({ expired: isExpired(urlData) })
+  } catch (error) {
+    console.error('Error checking link status:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  initializeDatabase,
+  getDeletedShortenedUrls,
+  restoreShortenedUrl
+} from '@/lib/db'
+import { formatDeletedShortenedUrl, formatShortenedUrl } from '@/lib/links'
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "../auth/[...nextauth]/authOptions";
+
+// List the owner's deleted links until they are purged
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  const userEmail = session?.user?.email;
+  if (!userEmail) {
+    return NextResponse.json(
+      { error: 'userEmail is required' },
+      { status: 401 }
+    );
+  }
+  try {
+    await initializeDatabase()
+    const data = await getDeletedShortenedUrls(userEmail)
+    return NextResponse.json(data.map(formatDeletedShortenedUrl))
+  } catch (error) {
+    console.error('Error fetching trash:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Restore a deleted link
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+  const userEmail = session?.user?.email;
+  if (!userEmail) {
+    return NextResponse.json(
+      { error: 'userEmail is required' },
+      { status: 401 }
+    );
+  }
+  try {
+    const { shortCode } = await request.json();
+    if (!shortCode) {
+      return NextResponse.json(
+        { error: 'shortCode is required' },
+        { status: 400 }
+      );
+    }
+    await initializeDatabase();
+    const data = await restoreShortenedUrl(shortCode, userEmail);
+    if (!data) {
+      return NextResponse.json(
+        { error: 'Not found or not authorized' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json(formatShortenedUrl(data));
+  } catch (error) {
+    console.error('Error restoring URL:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
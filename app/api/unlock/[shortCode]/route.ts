@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { initializeDatabase, getShortenedUrl } from '@/lib/db'
+import { SOURCE_PARAM } from '@/lib/links'
+import {
+  verifyPassword,
+  createUnlockToken,
+  unlockCookieName,
+  UNLOCK_TTL_SECONDS
+} from '@/lib/password'
+import { createThrottle } from '@/lib/throttle'
+import { getProxiedClientIp } from '@/lib/geo'
+
+// Failed password attempts allowed per visitor (short code and client IP) and window
+const MAX_FAILED_UNLOCKS = 5
+// Failed attempts allowed per short code from all visitors together, against
+// guessing spread over many addresses. This trades availability for safety:
+// whoever makes this many failed attempts within a window (from at least ten
+// addresses, given the per-visitor limit) locks every visitor out of the link
+// until the window ends, correct password or not.
+const MAX_FAILED_UNLOCKS_PER_LINK = 50
+const UNLOCK_WINDOW_MS = 15 * 60 * 1000
+
+const visitorThrottle = createThrottle(MAX_FAILED_UNLOCKS, UNLOCK_WINDOW_MS)
+const linkThrottle = createThrottle(MAX_FAILED_UNLOCKS_PER_LINK, UNLOCK_WINDOW_MS)
+
+// Verify the password entered on a protected link's interstitial and send the
+// visitor back to the short URL, unlocked by a signed cookie on success
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { shortCode: string } }
+) {
+  const { shortCode } = params
+  const back = new URL(`/${encodeURIComponent(shortCode)}`, request.url)
+  // Keep the visit attributed to its source (e.g. a QR code scan)
+  const source = request.nextUrl.searchParams.get(SOURCE_PARAM)
+  if (source) {
+    back.searchParams.set(SOURCE_PARAM, source)
+  }
+
+  try {
+    await initializeDatabase()
+
+    const urlData = await getShortenedUrl(shortCode)
+    if (!urlData?.password_hash) {
+      return NextResponse.redirect(back, 303)
+    }
+
+    // Visitors without a known address share one counter per short code
+    const clientIp = request.ip ?? getProxiedClientIp(request.headers)
+    const visitorKey = `${shortCode}:${clientIp ?? 'unknown'}`
+    if (
+      visitorThrottle.retryAfter(visitorKey) > 0 ||
+      linkThrottle.retryAfter(shortCode) > 0
+    ) {
+      console.log('🔒 Too many password attempts for:', shortCode)
+      back.searchParams.set('unlock', 'throttled')
+      return NextResponse.redirect(back, 303)
+    }
+
+    const password = (await request.formData()).get('password')
+    if (
+      typeof password !== 'string' ||
+      !(await verifyPassword(password, urlData.password_hash))
+    ) {
+      visitorThrottle.recordFailure(visitorKey)
+      linkThrottle.recordFailure(shortCode)
+      back.searchParams.set('unlock', 'invalid')
+      return NextResponse.redirect(back, 303)
+    }
+
+    visitorThrottle.reset(visitorKey)
+    const response = NextResponse.redirect(back, 303)
+    response.cookies.set(
+      unlockCookieName(shortCode),
+      createUnlockToken(shortCode, urlData.password_hash),
+      {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: process.env.NODE_ENV === 'production',
+        path: `/${shortCode}`,
+        maxAge: UNLOCK_TTL_SECONDS
+      }
+    )
+    return response
+  } catch (error) {
+    console.error('Error unlocking URL:', error)
+    back.searchParams.set('unlock', 'error')
+    return NextResponse.redirect(back, 303)
+  }
+}
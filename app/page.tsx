@@ -10,9 +10,22 @@ import {
   Check,
   Database,
   Cloud,
+  TimerOff,
+  Lock,
+  SlidersHorizontal,
+  ChevronDown,
+  CalendarClock,
+  Tag,
+  X,
+  Smartphone,
+  Globe,
+  Languages,
+  FlaskConical,
+  Route,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import {
   Card,
   CardContent,
@@ -21,28 +34,112 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
 import { toast } from "sonner";
 import { Toaster } from "@/components/ui/sonner";
 import AuthButton from "@/components/ui/AuthButton";
+import BulkShorten from "@/components/ui/BulkShorten";
+import EditLinkDialog from "@/components/ui/EditLinkDialog";
+import LinkHistoryDrawer from "@/components/ui/LinkHistoryDrawer";
+import QrCodeDialog from "@/components/ui/QrCodeDialog";
+import TrashDialog from "@/components/ui/TrashDialog";
+import CollectionsSidebar from "@/components/ui/CollectionsSidebar";
+import type { CollectionResponse, LinkResponse } from "@/lib/links";
+import { mergeQueryParams, type QueryParams } from "@/lib/query";
+import { formatRuleConditions } from "@/lib/rules";
 
-interface ShortenedUrl {
-  id: string;
-  originalUrl: string;
-  shortCode: string;
-  createdAt: string;
-  clicks: number;
-  userEmail: string;
-}
+const UTM_FIELDS = ["source", "medium", "campaign", "term", "content"] as const;
+
+const DEVICE_URL_FIELDS = [
+  { field: "iosUrl", label: "iOS", placeholder: "https://apps.apple.com/..." },
+  { field: "androidUrl", label: "Android", placeholder: "https://play.google.com/..." },
+  { field: "desktopUrl", label: "Desktop", placeholder: "https://example.com" },
+] as const;
+
+// Where a link stands relative to its activation window
+const getScheduleStatus = (item: LinkResponse) => {
+  const now = new Date();
+  if (item.activeFrom && new Date(item.activeFrom) > now) {
+    return {
+      text: "SCHEDULED",
+      color: "bg-amber-100 text-amber-700 border-amber-200",
+    };
+  }
+  if (item.activeUntil && new Date(item.activeUntil) <= now) {
+    return { text: "ENDED", color: "bg-gray-100 text-gray-600 border-gray-200" };
+  }
+  return { text: "ACTIVE", color: "bg-green-100 text-green-700 border-green-200" };
+};
 
 export default function Home() {
   const [url, setUrl] = useState("");
-  const [shortenedUrls, setShortenedUrls] = useState<ShortenedUrl[]>([]);
+  const [alias, setAlias] = useState("");
+  const [aliasSuggestions, setAliasSuggestions] = useState<string[]>([]);
+  const [expiresAt, setExpiresAt] = useState("");
+  const [maxClicks, setMaxClicks] = useState("");
+  const [password, setPassword] = useState("");
+  const [activeFrom, setActiveFrom] = useState("");
+  const [activeUntil, setActiveUntil] = useState("");
+  const [comingSoonMessage, setComingSoonMessage] = useState("");
+  const [tags, setTags] = useState("");
+  const [description, setDescription] = useState("");
+  const [utm, setUtm] = useState<Record<string, string>>({});
+  const [redirectMarker, setRedirectMarker] = useState("");
+  const [forwardQuery, setForwardQuery] = useState(false);
+  const [deviceUrls, setDeviceUrls] = useState<Record<string, string>>({});
+  const [geoTargets, setGeoTargets] = useState("");
+  const [languageTargets, setLanguageTargets] = useState("");
+  const [routingRules, setRoutingRules] = useState("");
+  const [variants, setVariants] = useState("");
+  const [stickyVariants, setStickyVariants] = useState(false);
+  const [dedupe, setDedupe] = useState(true);
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [collectionId, setCollectionId] = useState("");
+  const [collections, setCollections] = useState<CollectionResponse[]>([]);
+  const [collectionFilter, setCollectionFilter] = useState<string | null>(null);
+  const [showOptions, setShowOptions] = useState(false);
+  const [shortenedUrls, setShortenedUrls] = useState<LinkResponse[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [copiedId, setCopiedId] = useState<string | null>(null);
   const [isDatabaseConnected, setIsDatabaseConnected] = useState(false);
   const [isCheckingConnection, setIsCheckingConnection] = useState(true);
   const [storageType, setStorageType] = useState<"vercel" | "memory">("memory");
 
+  // Collections with their link and click counts, reloaded whenever links change
+  const loadCollections = useCallback(async () => {
+    try {
+      const response = await fetch("/api/collections");
+      if (response.ok) {
+        setCollections(await response.json());
+      }
+    } catch (error) {
+      console.error("Failed to load collections:", error);
+    }
+  }, []);
+
   // Check database connection
   useEffect(() => {
     const checkConnection = async () => {
@@ -52,6 +149,7 @@ export default function Home() {
         if (response.ok) {
           const data = await response.json();
           setShortenedUrls(data);
+          loadCollections();
 
           // Determine storage type based on environment
           const isProduction = window.location.hostname !== "127.0.0.1";
@@ -66,7 +164,7 @@ export default function Home() {
     };
 
     checkConnection();
-  }, []);
+  }, [loadCollections]);
 
   const isValidUrl = (string: string) => {
     try {
@@ -77,6 +175,11 @@ export default function Home() {
     }
   };
 
+  // The UTM parameters typed into the builder, merged into the destination by the server
+  const utmQuery: QueryParams = UTM_FIELDS.filter((field) => utm[field]?.trim()).map(
+    (field) => [`utm_${field}`, utm[field].trim()]
+  );
+
   const handleShorten = async () => {
     if (!url.trim()) {
       toast.error("Please enter a URL");
@@ -89,24 +192,87 @@ export default function Home() {
     }
 
     setIsLoading(true);
+    setAliasSuggestions([]);
     try {
       const response = await fetch("/api/shorten", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ url }),
+        body: JSON.stringify({
+          url,
+          alias: alias.trim() || undefined,
+          // datetime-local values are in the browser's time zone
+          expiresAt: expiresAt ? new Date(expiresAt).toISOString() : undefined,
+          maxClicks: maxClicks ? Number(maxClicks) : undefined,
+          password: password || undefined,
+          activeFrom: activeFrom ? new Date(activeFrom).toISOString() : undefined,
+          activeUntil: activeUntil
+            ? new Date(activeUntil).toISOString()
+            : undefined,
+          comingSoonMessage: (activeFrom && comingSoonMessage) || undefined,
+          // Comma-separated
+          tags: tags || undefined,
+          collectionId: collectionId || undefined,
+          description: description.trim() || undefined,
+          ...Object.fromEntries(utmQuery),
+          redirectMarker: redirectMarker.trim() || undefined,
+          forwardQuery: forwardQuery || undefined,
+          iosUrl: deviceUrls.iosUrl?.trim() || undefined,
+          androidUrl: deviceUrls.androidUrl?.trim() || undefined,
+          desktopUrl: deviceUrls.desktopUrl?.trim() || undefined,
+          // Lines of "CC=url"
+          geoTargets: geoTargets.trim() || undefined,
+          // Lines of "tag=url"
+          languageTargets: languageTargets.trim() || undefined,
+          // Lines of "conditions=url"
+          routingRules: routingRules.trim() || undefined,
+          // Lines of "weight=url"
+          variants: variants.trim() || undefined,
+          stickyVariants: stickyVariants || undefined,
+          dedupe,
+        }),
       });
 
       if (!response.ok) {
         const errorData = await response.json();
+        if (response.status === 409 && Array.isArray(errorData.suggestions)) {
+          setAliasSuggestions(errorData.suggestions);
+        }
         throw new Error(errorData.error || "Failed to shorten URL");
       }
 
       const data = await response.json();
-      setShortenedUrls((prev) => [data, ...prev]);
+      // An already shortened URL comes back as the existing link; move it to the top
+      setShortenedUrls((prev) => [
+        data,
+        ...prev.filter((item) => item.id !== data.id),
+      ]);
       setUrl("");
-      toast.success("URL shortened successfully!");
+      setAlias("");
+      setExpiresAt("");
+      setMaxClicks("");
+      setPassword("");
+      setActiveFrom("");
+      setActiveUntil("");
+      setComingSoonMessage("");
+      setTags("");
+      setDescription("");
+      setUtm({});
+      setRedirectMarker("");
+      setForwardQuery(false);
+      setDeviceUrls({});
+      setGeoTargets("");
+      setLanguageTargets("");
+      setRoutingRules("");
+      setVariants("");
+      setStickyVariants(false);
+      loadCollections();
+      toast.success(
+        data.reused
+          ? "You already shortened this URL, here is your existing link."
+          : "URL shortened successfully!"
+      );
 
       // Update connection status
       setIsDatabaseConnected(true);
@@ -155,6 +321,41 @@ export default function Home() {
 
   const storageInfo = getStorageInfo();
 
+  // Show only the links carrying all of the given tags, within a collection
+  const applyFilter = async (
+    nextTags: string[],
+    nextCollection: string | null
+  ) => {
+    setTagFilter(nextTags);
+    setCollectionFilter(nextCollection);
+    try {
+      const params = new URLSearchParams();
+      if (nextTags.length) params.set("tags", nextTags.join(","));
+      if (nextCollection) params.set("collection", nextCollection);
+      const query = params.toString();
+      const response = await fetch(`/api/shorten${query ? `?${query}` : ""}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load URLs");
+      }
+      setShortenedUrls(data);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to load URLs");
+    }
+  };
+
+  const handleUpdated = (updated: LinkResponse) => {
+    setShortenedUrls((prev) =>
+      prev
+        .map((item) => (item.id === updated.id ? { ...item, ...updated } : item))
+        // Drop links moved out of the collection on display
+        .filter(
+          (item) => !collectionFilter || item.collectionId === collectionFilter
+        )
+    );
+    loadCollections();
+  };
+
   // 删除短链
   const handleDelete = async (shortCode: string) => {
     try {
@@ -169,7 +370,8 @@ export default function Home() {
         throw new Error(errorData.error || 'Failed to delete URL');
       }
       setShortenedUrls((prev) => prev.filter((item) => item.shortCode !== shortCode));
-      toast.success('Deleted successfully!');
+      loadCollections();
+      toast.success('Moved to trash!');
     } catch (error) {
       toast.error(error instanceof Error ? error.message : 'Failed to delete URL. Please try again.');
     }
@@ -225,6 +427,12 @@ export default function Home() {
                   </>
                 )}
               </div>
+              <TrashDialog
+                onRestored={(restored) => {
+                  setShortenedUrls((prev) => [restored, ...prev]);
+                  loadCollections();
+                }}
+              />
               <AuthButton />
             </div>
           </div>
@@ -297,132 +505,635 @@ export default function Home() {
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <div className="flex gap-4">
-              <div className="flex-1">
+            <Collapsible open={showOptions} onOpenChange={setShowOptions}>
+              <div className="flex gap-4">
+                <div className="flex-1">
+                  <Input
+                    type="url"
+                    placeholder="https://notion.so/your-very-long-page-url-that-needs-shortening"
+                    value={url}
+                    onChange={(e) => setUrl(e.target.value)}
+                    onKeyPress={(e) => e.key === "Enter" && handleShorten()}
+                    className="h-12 text-lg"
+                  />
+                </div>
+                <Button
+                  onClick={handleShorten}
+                  disabled={isLoading}
+                  className="h-12 px-8 bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white font-semibold"
+                >
+                  {isLoading ? "Shortening..." : "Shorten"}
+                </Button>
+                <div className="flex items-center">
+                  <BulkShorten
+                    onCreated={(urls) =>
+                      setShortenedUrls((prev) => [...urls, ...prev])
+                    }
+                  />
+                </div>
+              </div>
+              <div className="flex flex-wrap items-center gap-2 mt-4">
+                <span className="font-mono text-gray-500">/</span>
                 <Input
-                  type="url"
-                  placeholder="https://notion.so/your-very-long-page-url-that-needs-shortening"
-                  value={url}
-                  onChange={(e) => setUrl(e.target.value)}
+                  placeholder="custom-alias (optional)"
+                  value={alias}
+                  onChange={(e) => {
+                    setAlias(e.target.value);
+                    setAliasSuggestions([]);
+                  }}
                   onKeyPress={(e) => e.key === "Enter" && handleShorten()}
-                  className="h-12 text-lg"
+                  className="max-w-xs font-mono"
                 />
+                <CollapsibleTrigger asChild>
+                  <Button variant="ghost" size="sm" className="gap-1 text-gray-600">
+                    <SlidersHorizontal className="h-4 w-4" />
+                    More options
+                    <ChevronDown
+                      className={`h-4 w-4 transition-transform ${
+                        showOptions ? "rotate-180" : ""
+                      }`}
+                    />
+                  </Button>
+                </CollapsibleTrigger>
+                <label className="flex items-center gap-2 text-sm text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={dedupe}
+                    onChange={(e) => setDedupe(e.target.checked)}
+                  />
+                  Reuse my existing link to the same URL
+                </label>
               </div>
-              <Button
-                onClick={handleShorten}
-                disabled={isLoading}
-                className="h-12 px-8 bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white font-semibold"
-              >
-                {isLoading ? "Shortening..." : "Shorten"}
-              </Button>
-            </div>
+              <CollapsibleContent>
+                <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-4 mt-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="expiresAt">Expires</Label>
+                    <Input
+                      id="expiresAt"
+                      type="datetime-local"
+                      value={expiresAt}
+                      onChange={(e) => setExpiresAt(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="maxClicks">Max clicks</Label>
+                    <Input
+                      id="maxClicks"
+                      type="number"
+                      min={1}
+                      placeholder="1 = one-time"
+                      value={maxClicks}
+                      onChange={(e) => setMaxClicks(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="password">Password</Label>
+                    <Input
+                      id="password"
+                      type="password"
+                      placeholder="optional"
+                      autoComplete="new-password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="activeFrom">Active from</Label>
+                    <Input
+                      id="activeFrom"
+                      type="datetime-local"
+                      value={activeFrom}
+                      onChange={(e) => setActiveFrom(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="activeUntil">Active until</Label>
+                    <Input
+                      id="activeUntil"
+                      type="datetime-local"
+                      value={activeUntil}
+                      onChange={(e) => setActiveUntil(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="comingSoonMessage">Coming soon message</Label>
+                    <Input
+                      id="comingSoonMessage"
+                      placeholder="Shown before activation"
+                      value={comingSoonMessage}
+                      onChange={(e) => setComingSoonMessage(e.target.value)}
+                      disabled={!activeFrom}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="collectionId">Collection</Label>
+                    <Select
+                      value={collectionId || "none"}
+                      onValueChange={(value) =>
+                        setCollectionId(value === "none" ? "" : value)
+                      }
+                    >
+                      <SelectTrigger id="collectionId">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">No collection</SelectItem>
+                        {collections.map((collection) => (
+                          <SelectItem key={collection.id} value={collection.id}>
+                            {collection.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="tags">Tags</Label>
+                    <Input
+                      id="tags"
+                      placeholder="campaign, team"
+                      value={tags}
+                      onChange={(e) => setTags(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2 sm:col-span-2 lg:col-span-3">
+                    <Label htmlFor="description">Description</Label>
+                    <Input
+                      id="description"
+                      placeholder="Shown on the link's preview page (add + to the short URL)"
+                      value={description}
+                      onChange={(e) => setDescription(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2 sm:col-span-2 lg:col-span-3">
+                    <Label htmlFor="utm_source">Campaign (UTM)</Label>
+                    <div className="grid sm:grid-cols-3 lg:grid-cols-5 gap-2">
+                      {UTM_FIELDS.map((field) => (
+                        <Input
+                          key={field}
+                          id={`utm_${field}`}
+                          aria-label={`utm_${field}`}
+                          placeholder={`utm_${field}`}
+                          value={utm[field] ?? ""}
+                          onChange={(e) =>
+                            setUtm((prev) => ({ ...prev, [field]: e.target.value }))
+                          }
+                          className="font-mono text-sm"
+                        />
+                      ))}
+                    </div>
+                    {utmQuery.length > 0 && isValidUrl(url.trim()) && (
+                      <p className="text-xs text-gray-500 break-all">
+                        Destination: {mergeQueryParams(url.trim(), utmQuery)}
+                      </p>
+                    )}
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="redirectMarker">Redirect marker</Label>
+                    <Input
+                      id="redirectMarker"
+                      placeholder="from=slinker, or off"
+                      value={redirectMarker}
+                      onChange={(e) => setRedirectMarker(e.target.value)}
+                      className="font-mono"
+                    />
+                  </div>
+                  <div className="flex items-end pb-2 sm:col-span-1 lg:col-span-2">
+                    <label className="flex items-center gap-2 text-sm text-gray-600">
+                      <input
+                        type="checkbox"
+                        checked={forwardQuery}
+                        onChange={(e) => setForwardQuery(e.target.checked)}
+                      />
+                      Forward the visitor&apos;s query parameters to the destination
+                    </label>
+                  </div>
+                  {DEVICE_URL_FIELDS.map(({ field, label, placeholder }) => (
+                    <div key={field} className="space-y-2">
+                      <Label htmlFor={field}>{label} destination</Label>
+                      <Input
+                        id={field}
+                        type="url"
+                        placeholder={placeholder}
+                        value={deviceUrls[field] ?? ""}
+                        onChange={(e) =>
+                          setDeviceUrls((prev) => ({ ...prev, [field]: e.target.value }))
+                        }
+                      />
+                    </div>
+                  ))}
+                  <div className="space-y-2 sm:col-span-2 lg:col-span-3">
+                    <Label htmlFor="geoTargets">Country destinations</Label>
+                    <Textarea
+                      id="geoTargets"
+                      placeholder={"DE=https://example.de\nFR=https://example.fr"}
+                      value={geoTargets}
+                      onChange={(e) => setGeoTargets(e.target.value)}
+                      className="font-mono min-h-[60px]"
+                    />
+                  </div>
+                  <div className="space-y-2 sm:col-span-2 lg:col-span-3">
+                    <Label htmlFor="languageTargets">Language destinations</Label>
+                    <Textarea
+                      id="languageTargets"
+                      placeholder={"de=https://example.com/de\npt-BR=https://example.com/pt-br"}
+                      value={languageTargets}
+                      onChange={(e) => setLanguageTargets(e.target.value)}
+                      className="font-mono min-h-[60px]"
+                    />
+                    <p className="text-xs text-gray-500">
+                      Matched against the browser&apos;s preferred languages; other
+                      visitors go to the main destination.
+                    </p>
+                  </div>
+                  <div className="space-y-2 sm:col-span-2 lg:col-span-3">
+                    <Label htmlFor="routingRules">Routing rules</Label>
+                    <Textarea
+                      id="routingRules"
+                      placeholder={
+                        "mon-fri 09:00-17:00 Europe/Berlin=https://example.com/hotline\nsat,sun device:ios=https://example.com/app"
+                      }
+                      value={routingRules}
+                      onChange={(e) => setRoutingRules(e.target.value)}
+                      className="font-mono min-h-[60px]"
+                    />
+                    <p className="text-xs text-gray-500">
+                      The first rule a visit meets wins, before any other targeting.
+                      Conditions: weekdays, a time window, a time zone (UTC by default),
+                      device:ios, country:DE and lang:de.
+                    </p>
+                  </div>
+                  <div className="space-y-2 sm:col-span-2 lg:col-span-3">
+                    <Label htmlFor="variants">A/B variants</Label>
+                    <Textarea
+                      id="variants"
+                      placeholder={"50=https://example.com/landing-a\n50=https://example.com/landing-b"}
+                      value={variants}
+                      onChange={(e) => setVariants(e.target.value)}
+                      className="font-mono min-h-[60px]"
+                    />
+                    <p className="text-xs text-gray-500">
+                      Visitors not sent elsewhere above are split between the variants by
+                      weight, instead of going to the main destination.
+                    </p>
+                    <label className="flex items-center gap-2 text-sm text-gray-600">
+                      <input
+                        type="checkbox"
+                        checked={stickyVariants}
+                        onChange={(e) => setStickyVariants(e.target.checked)}
+                      />
+                      Send returning visitors to the same variant
+                    </label>
+                  </div>
+                </div>
+              </CollapsibleContent>
+              {aliasSuggestions.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2 mt-3 text-sm text-gray-600">
+                  Try instead:
+                  {aliasSuggestions.map((suggestion) => (
+                    <Button
+                      key={suggestion}
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        setAlias(suggestion);
+                        setAliasSuggestions([]);
+                      }}
+                      className="font-mono"
+                    >
+                      {suggestion}
+                    </Button>
+                  ))}
+                </div>
+              )}
+            </Collapsible>
           </CardContent>
         </Card>
 
         {/* Shortened URLs History */}
-        {shortenedUrls.length > 0 && (
-          <Card className="bg-white/70 backdrop-blur-sm border-white/20 shadow-xl">
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <History className="h-5 w-5" />
-                Your Shortened URLs
-              </CardTitle>
-              <CardDescription>
-                Manage and track your shortened links
-                {storageType === "vercel"
-                  ? " stored in Vercel Postgres"
-                  : " (temporary storage)"}
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-4">
-                {shortenedUrls.map((item) => (
-                  <div
-                    key={item.id}
-                    className="border border-gray-200 rounded-lg p-4 bg-white/50"
-                  >
-                    <div className="flex items-start justify-between gap-4">
-                      <div className="flex-1 min-w-0">
-                        <div className="flex items-center gap-2 mb-2">
-                          <Badge variant="secondary" className="text-xs">
-                            SHORT
-                          </Badge>
-                          <Badge variant="outline" className="text-xs">
-                            {storageType === "vercel" ? (
-                              <>
-                                <Database className="h-3 w-3 mr-1" />
-                                VERCEL POSTGRES
-                              </>
-                            ) : (
-                              <>
-                                <Cloud className="h-3 w-3 mr-1" />
-                                LOCAL DEV
-                              </>
-                            )}
-                          </Badge>
-                          <span className="text-sm text-gray-500">
-                            {new Date(item.createdAt).toLocaleDateString()}
-                          </span>
-                        </div>
-                        <div className="font-mono text-blue-600 font-semibold mb-1 break-all">
-                          {getShortUrl(item.shortCode)}
-                        </div>
-                        <div
-                          className="text-sm text-gray-600 truncate"
-                          title={item.originalUrl}
-                        >
-                          <ExternalLink className="h-3 w-3 inline mr-1" />
-                          {item.originalUrl}
-                        </div>
-                        <div className="flex items-center gap-4 mt-2 text-sm text-gray-500">
-                          <div className="flex items-center gap-1">
-                            <BarChart3 className="h-3 w-3" />
-                            {item.clicks} clicks
-                          </div>
-                        </div>
-                      </div>
-                      <div className="flex gap-2">
-                        <Button
-                          variant="outline"
-                          size="sm"
+        {isDatabaseConnected && (
+          <div className="grid lg:grid-cols-[16rem_1fr] gap-6 items-start">
+            <CollectionsSidebar
+              collections={collections}
+              selectedId={collectionFilter}
+              onSelect={(id) => {
+                setCollectionId(id ?? "");
+                applyFilter(tagFilter, id);
+              }}
+              onChanged={loadCollections}
+            />
+            <Card className="bg-white/70 backdrop-blur-sm border-white/20 shadow-xl min-w-0">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <History className="h-5 w-5" />
+                  Your Shortened URLs
+                </CardTitle>
+                <CardDescription>
+                  Manage and track your shortened links
+                  {storageType === "vercel"
+                    ? " stored in Vercel Postgres"
+                    : " (temporary storage)"}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {tagFilter.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2 mb-4 text-sm text-gray-600">
+                    Tagged:
+                    {tagFilter.map((tag) => (
+                      <Badge key={tag} variant="secondary" className="gap-1">
+                        <Tag className="h-3 w-3" />
+                        {tag}
+                        <button
+                          type="button"
+                          aria-label={`Remove ${tag} filter`}
                           onClick={() =>
-                            handleCopy(getShortUrl(item.shortCode), item.id)
+                            applyFilter(
+                              tagFilter.filter((other) => other !== tag),
+                              collectionFilter
+                            )
                           }
-                          className="gap-1"
                         >
-                          {copiedId === item.id ? (
-                            <Check className="h-3 w-3" />
-                          ) : (
-                            <Copy className="h-3 w-3" />
+                          <X className="h-3 w-3" />
+                        </button>
+                      </Badge>
+                    ))}
+                    <Button variant="ghost" size="sm" onClick={() => applyFilter([], collectionFilter)}>
+                      Clear
+                    </Button>
+                  </div>
+                )}
+                {shortenedUrls.length === 0 && (
+                  <p className="text-sm text-gray-500">
+                    {tagFilter.length > 0 || collectionFilter
+                      ? "No links match this view."
+                      : "Shortened links will show up here."}
+                  </p>
+                )}
+                <div className="space-y-4">
+                  {shortenedUrls.map((item) => (
+                    <div
+                      key={item.id}
+                      className="border border-gray-200 rounded-lg p-4 bg-white/50"
+                    >
+                      <div className="flex items-start justify-between gap-4">
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-2 mb-2">
+                            <Badge variant="secondary" className="text-xs">
+                              SHORT
+                            </Badge>
+                            <Badge variant="outline" className="text-xs">
+                              {storageType === "vercel" ? (
+                                <>
+                                  <Database className="h-3 w-3 mr-1" />
+                                  VERCEL POSTGRES
+                                </>
+                              ) : (
+                                <>
+                                  <Cloud className="h-3 w-3 mr-1" />
+                                  LOCAL DEV
+                                </>
+                              )}
+                            </Badge>
+                            {(item.activeFrom || item.activeUntil) && (
+                              <Badge
+                                variant="outline"
+                                className={`text-xs ${getScheduleStatus(item).color}`}
+                              >
+                                <CalendarClock className="h-3 w-3 mr-1" />
+                                {getScheduleStatus(item).text}
+                              </Badge>
+                            )}
+                            {item.hasPassword && (
+                              <Badge variant="outline" className="text-xs">
+                                <Lock className="h-3 w-3 mr-1" />
+                                PROTECTED
+                              </Badge>
+                            )}
+                            {(item.iosUrl || item.androidUrl || item.desktopUrl) && (
+                              <Badge
+                                variant="outline"
+                                className="text-xs"
+                                title={DEVICE_URL_FIELDS.filter(({ field }) => item[field])
+                                  .map(({ field, label }) => `${label}: ${item[field]}`)
+                                  .join("\n")}
+                              >
+                                <Smartphone className="h-3 w-3 mr-1" />
+                                BY DEVICE
+                              </Badge>
+                            )}
+                            {Object.keys(item.geoTargets).length > 0 && (
+                              <Badge
+                                variant="outline"
+                                className="text-xs"
+                                title={Object.entries(item.geoTargets)
+                                  .map(([country, url]) => `${country}: ${url}`)
+                                  .join("\n")}
+                              >
+                                <Globe className="h-3 w-3 mr-1" />
+                                BY COUNTRY
+                              </Badge>
+                            )}
+                            {Object.keys(item.languageTargets).length > 0 && (
+                              <Badge
+                                variant="outline"
+                                className="text-xs"
+                                title={Object.entries(item.languageTargets)
+                                  .map(([language, url]) => `${language}: ${url}`)
+                                  .join("\n")}
+                              >
+                                <Languages className="h-3 w-3 mr-1" />
+                                BY LANGUAGE
+                              </Badge>
+                            )}
+                            {item.routingRules.length > 0 && (
+                              <Badge
+                                variant="outline"
+                                className="text-xs"
+                                title={item.routingRules
+                                  .map((rule) => `${formatRuleConditions(rule)}: ${rule.url}`)
+                                  .join("\n")}
+                              >
+                                <Route className="h-3 w-3 mr-1" />
+                                RULES
+                              </Badge>
+                            )}
+                            {item.variants.length > 0 && (
+                              <Badge
+                                variant="outline"
+                                className="text-xs"
+                                title={item.variants
+                                  .map(
+                                    (variant) =>
+                                      `${variant.url} (weight ${variant.weight}): ${variant.clicks} clicks`
+                                  )
+                                  .join("\n")}
+                              >
+                                <FlaskConical className="h-3 w-3 mr-1" />
+                                A/B {item.variants.map((variant) => variant.clicks).join(" / ")}
+                              </Badge>
+                            )}
+                            {item.expiresAt && (
+                              <Badge
+                                variant={
+                                  new Date(item.expiresAt) <= new Date()
+                                    ? "destructive"
+                                    : "outline"
+                                }
+                                className="text-xs"
+                              >
+                                <TimerOff className="h-3 w-3 mr-1" />
+                                {new Date(item.expiresAt) <= new Date()
+                                  ? "EXPIRED"
+                                  : `EXPIRES ${new Date(
+                                      item.expiresAt
+                                    ).toLocaleDateString()}`}
+                              </Badge>
+                            )}
+                            <span className="text-sm text-gray-500">
+                              {new Date(item.createdAt).toLocaleDateString()}
+                            </span>
+                          </div>
+                          {(item.title || item.pageTitle) && (
+                            <div
+                              className="flex items-center gap-2 font-semibold text-gray-900 mb-1 min-w-0"
+                              title={item.pageDescription ?? undefined}
+                            >
+                              {item.faviconUrl && (
+                                // Favicons come from arbitrary hosts, next/image would need each of them configured
+                                // eslint-disable-next-line @next/next/no-img-element
+                                <img
+                                  src={item.faviconUrl}
+                                  alt=""
+                                  className="h-4 w-4 shrink-0"
+                                  onError={(e) => (e.currentTarget.style.display = "none")}
+                                />
+                              )}
+                              <span className="truncate">
+                                {item.title || item.pageTitle}
+                              </span>
+                            </div>
                           )}
-                          {copiedId === item.id ? "Copied!" : "Copy"}
-                        </Button>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() =>
-                            window.open(getShortUrl(item.shortCode), "_blank")
-                          }
-                          className="gap-1"
-                        >
-                          <ExternalLink className="h-3 w-3" />
-                          Test
-                        </Button>
-                        <Button
-                          variant="destructive"
-                          size="sm"
-                          onClick={() => handleDelete(item.shortCode)}
-                          className="gap-1"
-                        >
-                          删除
-                        </Button>
+                          <div className="font-mono text-blue-600 font-semibold mb-1 break-all">
+                            {getShortUrl(item.shortCode)}
+                          </div>
+                          <div
+                            className="text-sm text-gray-600 truncate"
+                            title={item.originalUrl}
+                          >
+                            <ExternalLink className="h-3 w-3 inline mr-1" />
+                            {item.originalUrl}
+                          </div>
+                          <div className="flex items-center gap-4 mt-2 text-sm text-gray-500">
+                            <div className="flex items-center gap-1">
+                              <BarChart3 className="h-3 w-3" />
+                              {item.maxClicks !== null
+                                ? `${item.clicks} / ${item.maxClicks} clicks`
+                                : `${item.clicks} clicks`}
+                              {item.qrClicks > 0 && (
+                                <span title="Visits from scanning the QR code">
+                                  ({item.qrClicks} via QR)
+                                </span>
+                              )}
+                              {item.maxClicks === 1 && (
+                                <Badge variant="outline" className="text-xs ml-1">
+                                  ONE-TIME
+                                </Badge>
+                              )}
+                            </div>
+                            {item.tags.length > 0 && (
+                              <div className="flex flex-wrap items-center gap-1">
+                                {item.tags.map((tag) => (
+                                  <Badge
+                                    key={tag}
+                                    variant="outline"
+                                    className="text-xs cursor-pointer hover:bg-gray-100"
+                                    onClick={() =>
+                                      !tagFilter.includes(tag) &&
+                                      applyFilter([...tagFilter, tag], collectionFilter)
+                                    }
+                                  >
+                                    <Tag className="h-3 w-3 mr-1" />
+                                    {tag}
+                                  </Badge>
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                        </div>
+                        <div className="flex gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() =>
+                              handleCopy(getShortUrl(item.shortCode), item.id)
+                            }
+                            className="gap-1"
+                          >
+                            {copiedId === item.id ? (
+                              <Check className="h-3 w-3" />
+                            ) : (
+                              <Copy className="h-3 w-3" />
+                            )}
+                            {copiedId === item.id ? "Copied!" : "Copy"}
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() =>
+                              // Testing a capped link must not use up its clicks,
+                              // so it opens the preview page instead
+                              window.open(
+                                item.maxClicks !== null
+                                  ? `${getShortUrl(item.shortCode)}+`
+                                  : getShortUrl(item.shortCode),
+                                "_blank"
+                              )
+                            }
+                            className="gap-1"
+                          >
+                            <ExternalLink className="h-3 w-3" />
+                            {item.maxClicks !== null ? "Preview" : "Test"}
+                          </Button>
+                          <QrCodeDialog shortCode={item.shortCode} />
+                          <EditLinkDialog
+                            link={item}
+                            collections={collections}
+                            onUpdated={handleUpdated}
+                          />
+                          <LinkHistoryDrawer link={item} onUpdated={handleUpdated} />
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="destructive" size="sm" className="gap-1">
+                                删除
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Delete this link?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  <span className="font-mono">/{item.shortCode}</span>{" "}
+                                  will stop redirecting and move to the trash, where
+                                  it can be restored until it is purged.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction
+                                  onClick={() => handleDelete(item.shortCode)}
+                                  className="bg-red-600 hover:bg-red-700"
+                                >
+                                  删除
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
                       </div>
                     </div>
-                  </div>
-                ))}
-              </div>
-            </CardContent>
-          </Card>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
         )}
 
         {/* Features */}
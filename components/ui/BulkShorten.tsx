@@ -0,0 +1,217 @@
+'use client'
+
+import { useRef, useState } from 'react';
+import { Upload, ListPlus, Check, Recycle, X } from 'lucide-react';
+import { toast } from 'sonner';
+import type { LinkResponse } from '@/lib/links';
+import { Button } from './button';
+import { Textarea } from './textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from './dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from './table';
+
+type BulkRowResult =
+  | ({ row: number; status: 'created' } & LinkResponse)
+  | ({ row: number; status: 'reused' } & LinkResponse)
+  | { row: number; status: 'error'; url: string | null; error: string };
+
+interface BulkReport {
+  total: number;
+  created: number;
+  // Existing links returned for URLs the user had already shortened
+  reused: number;
+  failed: number;
+  results: BulkRowResult[];
+}
+
+export default function BulkShorten({
+  onCreated,
+}: {
+  onCreated: (urls: LinkResponse[]) => void;
+}) {
+  const [text, setText] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [report, setReport] = useState<BulkReport | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleSubmit = async () => {
+    if (!file && !text.trim()) {
+      toast.error('Please paste URLs or choose a CSV file');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      let body: BodyInit;
+      const headers: HeadersInit = {};
+      if (file) {
+        const formData = new FormData();
+        formData.append('file', file);
+        body = formData;
+      } else {
+        // One URL per line, or CSV with a "url,alias,title,tags" header
+        body = text;
+        headers['Content-Type'] = 'text/csv';
+      }
+
+      const response = await fetch('/api/shorten/bulk', {
+        method: 'POST',
+        headers,
+        body,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to shorten URLs');
+      }
+
+      setReport(data);
+      onCreated(
+        (data as BulkReport).results.flatMap((result) =>
+          result.status === 'created' ? [result] : []
+        )
+      );
+      if (data.failed > 0) {
+        toast.warning(`Created ${data.created} of ${data.total} links`);
+      } else if (data.reused > 0) {
+        toast.success(`Created ${data.created} links, reused ${data.reused} existing ones`);
+      } else {
+        toast.success(`Created ${data.created} links`);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to shorten URLs');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const reset = () => {
+    setText('');
+    setFile(null);
+    setReport(null);
+    if (fileInput.current) fileInput.current.value = '';
+  };
+
+  return (
+    <Dialog onOpenChange={(open) => !open && reset()}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <ListPlus className="h-4 w-4" />
+          Bulk
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Bulk Shorten</DialogTitle>
+          <DialogDescription>
+            Paste one URL per line, or a CSV with a <code>url,alias,title,tags</code>{' '}
+            header, or upload a CSV file.
+          </DialogDescription>
+        </DialogHeader>
+
+        {report ? (
+          <div className="space-y-4">
+            <div className="text-sm text-gray-600">
+              {report.created} created, {report.reused} reused, {report.failed} failed of{' '}
+              {report.total}
+            </div>
+            <div className="max-h-96 overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">Row</TableHead>
+                    <TableHead>Result</TableHead>
+                    <TableHead>URL</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.results.map((result) => (
+                    <TableRow key={result.row}>
+                      <TableCell>{result.row}</TableCell>
+                      <TableCell>
+                        {result.status === 'created' ? (
+                          <span className="flex items-center gap-1 font-mono text-green-700">
+                            <Check className="h-3 w-3" />/{result.shortCode}
+                          </span>
+                        ) : result.status === 'reused' ? (
+                          <span
+                            className="flex items-center gap-1 font-mono text-gray-600"
+                            title="You already shortened this URL"
+                          >
+                            <Recycle className="h-3 w-3" />/{result.shortCode}
+                          </span>
+                        ) : (
+                          <span className="flex items-center gap-1 text-red-700">
+                            <X className="h-3 w-3" />
+                            {result.error}
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell className="max-w-xs truncate">
+                        {result.status === 'error' ? result.url : result.originalUrl}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            <Button variant="outline" onClick={reset}>
+              Shorten more
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <Textarea
+              placeholder={'https://example.com/campaign-a\nhttps://example.com/campaign-b'}
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              disabled={!!file}
+              rows={8}
+              className="font-mono text-sm"
+            />
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-2">
+                <input
+                  ref={fileInput}
+                  type="file"
+                  accept=".csv,text/csv"
+                  className="hidden"
+                  onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => fileInput.current?.click()}
+                  className="gap-1"
+                >
+                  <Upload className="h-3 w-3" />
+                  {file ? file.name : 'Upload CSV'}
+                </Button>
+              </div>
+              <Button
+                onClick={handleSubmit}
+                disabled={isLoading}
+                className="bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white font-semibold"
+              >
+                {isLoading ? 'Shortening...' : 'Shorten All'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,210 @@
+'use client'
+
+import { useState } from 'react';
+import { Check, Folder, FolderOpen, Layers, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import type { CollectionResponse } from '@/lib/links';
+import { Button } from './button';
+import { Card, CardContent, CardHeader, CardTitle } from './card';
+import { Input } from './input';
+
+export default function CollectionsSidebar({
+  collections,
+  selectedId,
+  onSelect,
+  onChanged,
+}: {
+  collections: CollectionResponse[];
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  // Called after a collection was created, renamed or deleted
+  onChanged: () => void;
+}) {
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  const request = async (url: string, init: RequestInit, fallback: string) => {
+    const response = await fetch(url, {
+      ...init,
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || fallback);
+    }
+    return data;
+  };
+
+  const handleCreate = async () => {
+    if (!newName.trim()) return;
+    try {
+      const created = await request(
+        '/api/collections',
+        { method: 'POST', body: JSON.stringify({ name: newName }) },
+        'Failed to create collection'
+      );
+      setNewName('');
+      onChanged();
+      onSelect(created.id);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create collection');
+    }
+  };
+
+  const handleRename = async (id: string) => {
+    try {
+      await request(
+        `/api/collections/${id}`,
+        { method: 'PATCH', body: JSON.stringify({ name: editingName }) },
+        'Failed to rename collection'
+      );
+      setEditingId(null);
+      onChanged();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to rename collection');
+    }
+  };
+
+  const handleDelete = async (collection: CollectionResponse) => {
+    if (
+      !window.confirm(
+        `Delete the collection "${collection.name}"? Its links are kept.`
+      )
+    ) {
+      return;
+    }
+    try {
+      await request(
+        `/api/collections/${collection.id}`,
+        { method: 'DELETE' },
+        'Failed to delete collection'
+      );
+      if (selectedId === collection.id) onSelect(null);
+      onChanged();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete collection');
+    }
+  };
+
+  const itemClass = (selected: boolean) =>
+    `flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm ${
+      selected ? 'bg-purple-100 text-purple-800 font-semibold' : 'hover:bg-gray-100'
+    }`;
+
+  return (
+    <Card className="bg-white/70 backdrop-blur-sm border-white/20 shadow-xl h-fit">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Layers className="h-4 w-4" />
+          Collections
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-1">
+        <button
+          type="button"
+          className={itemClass(selectedId === null)}
+          onClick={() => onSelect(null)}
+        >
+          <Layers className="h-4 w-4" />
+          All links
+        </button>
+        {collections.map((collection) =>
+          editingId === collection.id ? (
+            <div key={collection.id} className="flex items-center gap-1">
+              <Input
+                value={editingName}
+                onChange={(e) => setEditingName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleRename(collection.id)}
+                className="h-8"
+                autoFocus
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 shrink-0"
+                aria-label="Save"
+                onClick={() => handleRename(collection.id)}
+              >
+                <Check className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 shrink-0"
+                aria-label="Cancel"
+                onClick={() => setEditingId(null)}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ) : (
+            <div key={collection.id} className="group flex items-center">
+              <button
+                type="button"
+                className={itemClass(selectedId === collection.id)}
+                onClick={() => onSelect(collection.id)}
+              >
+                {selectedId === collection.id ? (
+                  <FolderOpen className="h-4 w-4 shrink-0" />
+                ) : (
+                  <Folder className="h-4 w-4 shrink-0" />
+                )}
+                <span className="flex-1 truncate">{collection.name}</span>
+                <span
+                  className="text-xs text-gray-500 font-normal"
+                  title={`${collection.linkCount} links, ${collection.clicks} clicks`}
+                >
+                  {collection.linkCount} · {collection.clicks}
+                </span>
+              </button>
+              <div className="hidden group-hover:flex">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  aria-label={`Rename ${collection.name}`}
+                  onClick={() => {
+                    setEditingId(collection.id);
+                    setEditingName(collection.name);
+                  }}
+                >
+                  <Pencil className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  aria-label={`Delete ${collection.name}`}
+                  onClick={() => handleDelete(collection)}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            </div>
+          )
+        )}
+        <div className="flex items-center gap-1 pt-2">
+          <Input
+            placeholder="New collection"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+            className="h-8"
+          />
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-8 w-8 shrink-0"
+            aria-label="Create collection"
+            onClick={handleCreate}
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+        <p className="pt-1 text-xs text-gray-500">Links · clicks per collection</p>
+      </CardContent>
+    </Card>
+  );
+}
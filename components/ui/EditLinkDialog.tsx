@@ -0,0 +1,496 @@
+'use client'
+
+import { useState } from 'react';
+import { Pencil } from 'lucide-react';
+import { toast } from 'sonner';
+import type { CollectionResponse, LinkResponse } from '@/lib/links';
+import { formatRuleConditions } from '@/lib/rules';
+import { Button } from './button';
+import { Input } from './input';
+import { Label } from './label';
+import { Textarea } from './textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from './dialog';
+
+interface EditForm {
+  url: string;
+  alias: string;
+  title: string;
+  description: string;
+  expiresAt: string;
+  maxClicks: string;
+  activeFrom: string;
+  activeUntil: string;
+  comingSoonMessage: string;
+  tags: string;
+  collectionId: string;
+  redirectMarker: string;
+  forwardQuery: boolean;
+  iosUrl: string;
+  androidUrl: string;
+  desktopUrl: string;
+  geoTargets: string;
+  languageTargets: string;
+  routingRules: string;
+  variants: string;
+  stickyVariants: boolean;
+}
+
+// datetime-local inputs work in the browser's time zone, without seconds
+const toDateTimeLocal = (value: string | null) => {
+  if (!value) return '';
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000)
+    .toISOString()
+    .slice(0, 16);
+};
+
+const toForm = (link: LinkResponse): EditForm => ({
+  url: link.originalUrl,
+  alias: link.shortCode,
+  title: link.title ?? '',
+  description: link.description ?? '',
+  expiresAt: toDateTimeLocal(link.expiresAt),
+  maxClicks: link.maxClicks !== null ? String(link.maxClicks) : '',
+  activeFrom: toDateTimeLocal(link.activeFrom),
+  activeUntil: toDateTimeLocal(link.activeUntil),
+  comingSoonMessage: link.comingSoonMessage ?? '',
+  tags: link.tags.join(', '),
+  collectionId: link.collectionId ?? '',
+  redirectMarker: link.redirectMarker ?? '',
+  forwardQuery: link.forwardQuery,
+  iosUrl: link.iosUrl ?? '',
+  androidUrl: link.androidUrl ?? '',
+  desktopUrl: link.desktopUrl ?? '',
+  geoTargets: Object.entries(link.geoTargets)
+    .map(([country, url]) => `${country}=${url}`)
+    .join('\n'),
+  languageTargets: Object.entries(link.languageTargets)
+    .map(([language, url]) => `${language}=${url}`)
+    .join('\n'),
+  routingRules: link.routingRules
+    .map((rule) => `${formatRuleConditions(rule)}=${rule.url}`)
+    .join('\n'),
+  variants: link.variants.map((variant) => `${variant.weight}=${variant.url}`).join('\n'),
+  stickyVariants: link.stickyVariants,
+});
+
+export default function EditLinkDialog({
+  link,
+  collections,
+  onUpdated,
+}: {
+  link: LinkResponse;
+  collections: CollectionResponse[];
+  onUpdated: (link: LinkResponse) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState<EditForm>(() => toForm(link));
+  const [password, setPassword] = useState('');
+  const [removePassword, setRemovePassword] = useState(false);
+  const [aliasSuggestions, setAliasSuggestions] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const update = <K extends keyof EditForm>(field: K, value: EditForm[K]) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+    if (field === 'alias') setAliasSuggestions([]);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      setForm(toForm(link));
+      setPassword('');
+      setRemovePassword(false);
+      setAliasSuggestions([]);
+    }
+    setOpen(next);
+  };
+
+  const handleSave = async () => {
+    // Only send what changed, so untouched settings are left as they are
+    const initial = toForm(link);
+    const changes: Record<string, unknown> = {};
+    const toIso = (value: string) => (value ? new Date(value).toISOString() : null);
+    if (form.url !== initial.url) changes.url = form.url.trim();
+    if (form.alias !== initial.alias) changes.alias = form.alias.trim();
+    if (form.title !== initial.title) changes.title = form.title;
+    if (form.description !== initial.description) changes.description = form.description;
+    if (form.expiresAt !== initial.expiresAt) changes.expiresAt = toIso(form.expiresAt);
+    if (form.maxClicks !== initial.maxClicks) {
+      changes.maxClicks = form.maxClicks ? Number(form.maxClicks) : null;
+    }
+    if (form.activeFrom !== initial.activeFrom) changes.activeFrom = toIso(form.activeFrom);
+    if (form.activeUntil !== initial.activeUntil) changes.activeUntil = toIso(form.activeUntil);
+    if (form.comingSoonMessage !== initial.comingSoonMessage) {
+      changes.comingSoonMessage = form.comingSoonMessage;
+    }
+    // Comma-separated; an empty value removes all tags
+    if (form.tags !== initial.tags) changes.tags = form.tags;
+    if (form.collectionId !== initial.collectionId) {
+      changes.collectionId = form.collectionId || null;
+    }
+    // An empty marker goes back to the instance default
+    if (form.redirectMarker !== initial.redirectMarker) {
+      changes.redirectMarker = form.redirectMarker.trim() || null;
+    }
+    if (form.forwardQuery !== initial.forwardQuery) changes.forwardQuery = form.forwardQuery;
+    // An empty device destination falls back to the main destination
+    if (form.iosUrl !== initial.iosUrl) changes.iosUrl = form.iosUrl.trim() || null;
+    if (form.androidUrl !== initial.androidUrl) {
+      changes.androidUrl = form.androidUrl.trim() || null;
+    }
+    if (form.desktopUrl !== initial.desktopUrl) {
+      changes.desktopUrl = form.desktopUrl.trim() || null;
+    }
+    // Lines of "CC=url"; an empty value removes all country destinations
+    if (form.geoTargets !== initial.geoTargets) changes.geoTargets = form.geoTargets;
+    if (form.languageTargets !== initial.languageTargets) {
+      changes.languageTargets = form.languageTargets;
+    }
+    // Lines of "conditions=url"; an empty value removes all rules
+    if (form.routingRules !== initial.routingRules) changes.routingRules = form.routingRules;
+    // Lines of "weight=url"; variants that keep their URL keep their click counts
+    if (form.variants !== initial.variants) changes.variants = form.variants;
+    if (form.stickyVariants !== initial.stickyVariants) {
+      changes.stickyVariants = form.stickyVariants;
+    }
+    if (removePassword) {
+      changes.password = null;
+    } else if (password) {
+      changes.password = password;
+    }
+
+    if (Object.keys(changes).length === 0) {
+      setOpen(false);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/shorten', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ shortCode: link.shortCode, ...changes }),
+        credentials: 'include',
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        if (response.status === 409 && Array.isArray(data.suggestions)) {
+          setAliasSuggestions(data.suggestions);
+        }
+        throw new Error(data.error || 'Failed to update URL');
+      }
+      onUpdated(data);
+      setOpen(false);
+      toast.success('Link updated!');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update URL');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-1">
+          <Pencil className="h-3 w-3" />
+          Edit
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Edit Link</DialogTitle>
+          <DialogDescription>
+            Re-point <span className="font-mono">/{link.shortCode}</span> or change
+            its settings. Printed links keep working with the new destination.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="edit-url">Destination</Label>
+            <Input
+              id="edit-url"
+              type="url"
+              value={form.url}
+              onChange={(e) => update('url', e.target.value)}
+            />
+          </div>
+          <div className="grid sm:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="edit-iosUrl">iOS destination</Label>
+              <Input
+                id="edit-iosUrl"
+                type="url"
+                placeholder="same as above"
+                value={form.iosUrl}
+                onChange={(e) => update('iosUrl', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-androidUrl">Android destination</Label>
+              <Input
+                id="edit-androidUrl"
+                type="url"
+                placeholder="same as above"
+                value={form.androidUrl}
+                onChange={(e) => update('androidUrl', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-desktopUrl">Desktop destination</Label>
+              <Input
+                id="edit-desktopUrl"
+                type="url"
+                placeholder="same as above"
+                value={form.desktopUrl}
+                onChange={(e) => update('desktopUrl', e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="edit-geoTargets">Country destinations</Label>
+            <Textarea
+              id="edit-geoTargets"
+              placeholder={'DE=https://example.de\nFR=https://example.fr'}
+              value={form.geoTargets}
+              onChange={(e) => update('geoTargets', e.target.value)}
+              className="font-mono min-h-[60px]"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="edit-languageTargets">Language destinations</Label>
+            <Textarea
+              id="edit-languageTargets"
+              placeholder={'de=https://example.com/de\npt-BR=https://example.com/pt-br'}
+              value={form.languageTargets}
+              onChange={(e) => update('languageTargets', e.target.value)}
+              className="font-mono min-h-[60px]"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="edit-routingRules">Routing rules</Label>
+            <Textarea
+              id="edit-routingRules"
+              placeholder={'mon-fri 09:00-17:00 Europe/Berlin=https://example.com/hotline'}
+              value={form.routingRules}
+              onChange={(e) => update('routingRules', e.target.value)}
+              className="font-mono min-h-[60px]"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="edit-variants">A/B variants</Label>
+            <Textarea
+              id="edit-variants"
+              placeholder={'50=https://example.com/landing-a\n50=https://example.com/landing-b'}
+              value={form.variants}
+              onChange={(e) => update('variants', e.target.value)}
+              className="font-mono min-h-[60px]"
+            />
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={form.stickyVariants}
+                onChange={(e) => update('stickyVariants', e.target.checked)}
+              />
+              Send returning visitors to the same variant
+            </label>
+          </div>
+          <div className="grid sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="edit-alias">Alias</Label>
+              <Input
+                id="edit-alias"
+                value={form.alias}
+                onChange={(e) => update('alias', e.target.value)}
+                className="font-mono"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-title">Title</Label>
+              <Input
+                id="edit-title"
+                placeholder="optional"
+                value={form.title}
+                onChange={(e) => update('title', e.target.value)}
+              />
+            </div>
+          </div>
+          {aliasSuggestions.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+              Try instead:
+              {aliasSuggestions.map((suggestion) => (
+                <Button
+                  key={suggestion}
+                  variant="outline"
+                  size="sm"
+                  onClick={() => update('alias', suggestion)}
+                  className="font-mono"
+                >
+                  {suggestion}
+                </Button>
+              ))}
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="edit-description">Description</Label>
+            <Input
+              id="edit-description"
+              placeholder="Shown on the preview page"
+              value={form.description}
+              onChange={(e) => update('description', e.target.value)}
+            />
+          </div>
+          <div className="grid sm:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="edit-expiresAt">Expires</Label>
+              <Input
+                id="edit-expiresAt"
+                type="datetime-local"
+                value={form.expiresAt}
+                onChange={(e) => update('expiresAt', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-maxClicks">Max clicks</Label>
+              <Input
+                id="edit-maxClicks"
+                type="number"
+                min={1}
+                placeholder="unlimited"
+                value={form.maxClicks}
+                onChange={(e) => update('maxClicks', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-password">
+                {link.hasPassword ? 'New password' : 'Password'}
+              </Label>
+              <Input
+                id="edit-password"
+                type="password"
+                placeholder={link.hasPassword ? 'unchanged' : 'optional'}
+                autoComplete="new-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                disabled={removePassword}
+              />
+              {link.hasPassword && (
+                <label className="flex items-center gap-2 text-sm text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={removePassword}
+                    onChange={(e) => setRemovePassword(e.target.checked)}
+                  />
+                  Remove password
+                </label>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-activeFrom">Active from</Label>
+              <Input
+                id="edit-activeFrom"
+                type="datetime-local"
+                value={form.activeFrom}
+                onChange={(e) => update('activeFrom', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-activeUntil">Active until</Label>
+              <Input
+                id="edit-activeUntil"
+                type="datetime-local"
+                value={form.activeUntil}
+                onChange={(e) => update('activeUntil', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-comingSoonMessage">Coming soon message</Label>
+              <Input
+                id="edit-comingSoonMessage"
+                placeholder="Shown before activation"
+                value={form.comingSoonMessage}
+                onChange={(e) => update('comingSoonMessage', e.target.value)}
+                disabled={!form.activeFrom}
+              />
+            </div>
+          </div>
+          <div className="grid sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="edit-collectionId">Collection</Label>
+              <Select
+                value={form.collectionId || 'none'}
+                onValueChange={(value) =>
+                  update('collectionId', value === 'none' ? '' : value)
+                }
+              >
+                <SelectTrigger id="edit-collectionId">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No collection</SelectItem>
+                  {collections.map((collection) => (
+                    <SelectItem key={collection.id} value={collection.id}>
+                      {collection.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-tags">Tags</Label>
+              <Input
+                id="edit-tags"
+                placeholder="campaign, team"
+                value={form.tags}
+                onChange={(e) => update('tags', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-redirectMarker">Redirect marker</Label>
+              <Input
+                id="edit-redirectMarker"
+                placeholder="instance default"
+                value={form.redirectMarker}
+                onChange={(e) => update('redirectMarker', e.target.value)}
+                className="font-mono"
+              />
+            </div>
+            <div className="flex items-end pb-2">
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={form.forwardQuery}
+                  onChange={(e) => update('forwardQuery', e.target.checked)}
+                />
+                Forward the visitor&apos;s query parameters
+              </label>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white font-semibold"
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,142 @@
+'use client'
+
+import { useState } from 'react';
+import { ArrowRight, History, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import type { LinkResponse, LinkRevisionResponse } from '@/lib/links';
+import { Button } from './button';
+import {
+  Drawer,
+  DrawerContent,
+  DrawerDescription,
+  DrawerHeader,
+  DrawerTitle,
+  DrawerTrigger,
+} from './drawer';
+
+export default function LinkHistoryDrawer({
+  link,
+  onUpdated,
+}: {
+  link: LinkResponse;
+  onUpdated: (link: LinkResponse) => void;
+}) {
+  const [revisions, setRevisions] = useState<LinkRevisionResponse[] | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const loadRevisions = async (shortCode: string) => {
+    try {
+      const response = await fetch(
+        `/api/revisions/${encodeURIComponent(shortCode)}`,
+        { credentials: 'include' }
+      );
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load history');
+      }
+      setRevisions(data);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load history');
+    }
+  };
+
+  const handleRollback = async (revision: LinkRevisionResponse) => {
+    setRestoringId(revision.id);
+    try {
+      const response = await fetch(
+        `/api/revisions/${encodeURIComponent(link.shortCode)}`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ revisionId: revision.id }),
+          credentials: 'include',
+        }
+      );
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to roll back');
+      }
+      onUpdated(data);
+      toast.success('Destination restored!');
+      await loadRevisions(data.shortCode);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to roll back');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <Drawer
+      onOpenChange={(open) => {
+        if (open) {
+          setRevisions(null);
+          loadRevisions(link.shortCode);
+        }
+      }}
+    >
+      <DrawerTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-1">
+          <History className="h-3 w-3" />
+          History
+        </Button>
+      </DrawerTrigger>
+      <DrawerContent>
+        <div className="mx-auto w-full max-w-3xl">
+          <DrawerHeader>
+            <DrawerTitle>Destination history</DrawerTitle>
+            <DrawerDescription>
+              Every change of the destination of{' '}
+              <span className="font-mono">/{link.shortCode}</span>. Roll back to
+              restore the destination it had before a change.
+            </DrawerDescription>
+          </DrawerHeader>
+          <div className="max-h-[60vh] overflow-auto px-4 pb-6 space-y-3">
+            {revisions === null ? (
+              <p className="text-sm text-gray-500">Loading...</p>
+            ) : revisions.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                The destination has not been changed since the link was created.
+              </p>
+            ) : (
+              revisions.map((revision) => (
+                <div
+                  key={revision.id}
+                  className="border border-gray-200 rounded-lg p-3 bg-white/50"
+                >
+                  <div className="flex items-center justify-between gap-4 mb-2">
+                    <span className="text-sm text-gray-500">
+                      {new Date(revision.createdAt).toLocaleString()}
+                      {revision.changedBy && ` by ${revision.changedBy}`}
+                    </span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRollback(revision)}
+                      disabled={
+                        restoringId !== null || revision.oldUrl === link.originalUrl
+                      }
+                      className="gap-1"
+                    >
+                      <RotateCcw className="h-3 w-3" />
+                      {restoringId === revision.id ? 'Restoring...' : 'Roll back'}
+                    </Button>
+                  </div>
+                  <div className="flex items-center gap-2 text-sm min-w-0">
+                    <span className="truncate text-gray-500 line-through" title={revision.oldUrl}>
+                      {revision.oldUrl}
+                    </span>
+                    <ArrowRight className="h-3 w-3 shrink-0 text-gray-400" />
+                    <span className="truncate text-gray-900" title={revision.newUrl}>
+                      {revision.newUrl}
+                    </span>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      </DrawerContent>
+    </Drawer>
+  );
+}
@@ -0,0 +1,48 @@
+import Link from 'next/link';
+import { Link as LinkIcon } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './card';
+import { Button } from './button';
+
+// Branded full-page message shown instead of a redirect (expired links etc.)
+export default function LinkStatusPage({
+  icon,
+  title,
+  description,
+  children,
+}: {
+  icon: React.ReactNode;
+  title: string;
+  description: React.ReactNode;
+  children?: React.ReactNode;
+}) {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 flex flex-col">
+      <div className="max-w-6xl w-full mx-auto px-4 py-4 flex items-center gap-3">
+        <div className="p-2 bg-gradient-to-r from-blue-500 to-purple-600 rounded-lg">
+          <LinkIcon className="h-6 w-6 text-white" />
+        </div>
+        <span className="text-2xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+          SLinker
+        </span>
+      </div>
+
+      <div className="flex-1 flex items-center justify-center px-4 pb-24">
+        <Card className="w-full max-w-md bg-white/70 backdrop-blur-sm border-white/20 shadow-xl text-center">
+          <CardHeader>
+            <div className="mx-auto p-3 bg-gradient-to-r from-blue-100 to-purple-100 rounded-full w-fit mb-2">
+              {icon}
+            </div>
+            <CardTitle className="text-2xl">{title}</CardTitle>
+            <CardDescription className="text-base">{description}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {children}
+            <Button asChild variant="outline">
+              <Link href="/">Go to SLinker</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
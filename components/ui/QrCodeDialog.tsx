@@ -0,0 +1,151 @@
+'use client'
+
+import { useState } from 'react';
+import { Download, QrCode } from 'lucide-react';
+import { Button } from './button';
+import { Input } from './input';
+import { Label } from './label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from './dialog';
+
+const ERROR_CORRECTION_LEVELS = [
+  { value: 'L', label: 'Low (7%)' },
+  { value: 'M', label: 'Medium (15%)' },
+  { value: 'Q', label: 'Quartile (25%)' },
+  { value: 'H', label: 'High (30%)' },
+];
+
+export default function QrCodeDialog({ shortCode }: { shortCode: string }) {
+  const [size, setSize] = useState('512');
+  const [margin, setMargin] = useState('2');
+  const [ecc, setEcc] = useState('M');
+  const [foreground, setForeground] = useState('#000000');
+  const [background, setBackground] = useState('#ffffff');
+
+  const qrUrl = (format: 'svg' | 'png') => {
+    const params = new URLSearchParams({
+      format,
+      size: size || '512',
+      margin: margin || '0',
+      ecc,
+      fg: foreground.slice(1),
+      bg: background.slice(1),
+    });
+    return `/api/qr/${encodeURIComponent(shortCode)}?${params}`;
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-1">
+          <QrCode className="h-3 w-3" />
+          QR
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>QR Code</DialogTitle>
+          <DialogDescription>
+            Scanning the code opens <span className="font-mono">/{shortCode}</span>.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid sm:grid-cols-2 gap-6">
+          <div className="flex items-center justify-center rounded-lg border border-gray-200 p-4">
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img
+              src={qrUrl('svg')}
+              alt={`QR code for /${shortCode}`}
+              className="w-full max-w-[16rem] aspect-square"
+            />
+          </div>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="qr-size">Size (px)</Label>
+                <Input
+                  id="qr-size"
+                  type="number"
+                  min={64}
+                  max={2048}
+                  step={64}
+                  value={size}
+                  onChange={(e) => setSize(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="qr-margin">Margin</Label>
+                <Input
+                  id="qr-margin"
+                  type="number"
+                  min={0}
+                  max={16}
+                  value={margin}
+                  onChange={(e) => setMargin(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="qr-ecc">Error correction</Label>
+              <Select value={ecc} onValueChange={setEcc}>
+                <SelectTrigger id="qr-ecc">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ERROR_CORRECTION_LEVELS.map((level) => (
+                    <SelectItem key={level.value} value={level.value}>
+                      {level.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="qr-foreground">Foreground</Label>
+                <Input
+                  id="qr-foreground"
+                  type="color"
+                  value={foreground}
+                  onChange={(e) => setForeground(e.target.value)}
+                  className="h-10 p-1"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="qr-background">Background</Label>
+                <Input
+                  id="qr-background"
+                  type="color"
+                  value={background}
+                  onChange={(e) => setBackground(e.target.value)}
+                  className="h-10 p-1"
+                />
+              </div>
+            </div>
+            <div className="flex gap-2 pt-2">
+              <Button asChild variant="outline" className="flex-1 gap-1">
+                <a href={qrUrl('svg')} download={`${shortCode}.svg`}>
+                  <Download className="h-4 w-4" />
+                  SVG
+                </a>
+              </Button>
+              <Button asChild variant="outline" className="flex-1 gap-1">
+                <a href={qrUrl('png')} download={`${shortCode}.png`}>
+                  <Download className="h-4 w-4" />
+                  PNG
+                </a>
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
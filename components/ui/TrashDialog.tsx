@@ -0,0 +1,124 @@
+'use client'
+
+import { useState } from 'react';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { DeletedLinkResponse, LinkResponse } from '@/lib/links';
+import { Button } from './button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from './dialog';
+
+export default function TrashDialog({
+  onRestored,
+}: {
+  onRestored: (link: LinkResponse) => void;
+}) {
+  const [links, setLinks] = useState<DeletedLinkResponse[] | null>(null);
+  const [restoringCode, setRestoringCode] = useState<string | null>(null);
+
+  const loadTrash = async () => {
+    try {
+      const response = await fetch('/api/trash', { credentials: 'include' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load trash');
+      }
+      setLinks(data);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load trash');
+    }
+  };
+
+  const handleRestore = async (shortCode: string) => {
+    setRestoringCode(shortCode);
+    try {
+      const response = await fetch('/api/trash', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ shortCode }),
+        credentials: 'include',
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to restore URL');
+      }
+      setLinks((prev) => prev && prev.filter((link) => link.shortCode !== shortCode));
+      onRestored(data);
+      toast.success('Restored successfully!');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to restore URL');
+    } finally {
+      setRestoringCode(null);
+    }
+  };
+
+  return (
+    <Dialog
+      onOpenChange={(open) => {
+        if (open) {
+          setLinks(null);
+          loadTrash();
+        }
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-1">
+          <Trash2 className="h-4 w-4" />
+          Trash
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Trash</DialogTitle>
+          <DialogDescription>
+            Deleted links stop redirecting and keep their short code until they
+            are purged. Restore them before then to bring them back.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="max-h-96 overflow-auto space-y-3">
+          {links === null ? (
+            <p className="text-sm text-gray-500">Loading...</p>
+          ) : links.length === 0 ? (
+            <p className="text-sm text-gray-500">The trash is empty.</p>
+          ) : (
+            links.map((link) => (
+              <div
+                key={link.id}
+                className="flex items-center justify-between gap-4 border border-gray-200 rounded-lg p-3"
+              >
+                <div className="min-w-0">
+                  <div className="font-mono text-blue-600 font-semibold">
+                    /{link.shortCode}
+                  </div>
+                  <div className="text-sm text-gray-600 truncate" title={link.originalUrl}>
+                    {link.originalUrl}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    Deleted {new Date(link.deletedAt).toLocaleDateString()}, purged{' '}
+                    {new Date(link.purgeAt).toLocaleDateString()}
+                  </div>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRestore(link.shortCode)}
+                  disabled={restoringCode !== null}
+                  className="gap-1 shrink-0"
+                >
+                  <RotateCcw className="h-3 w-3" />
+                  {restoringCode === link.shortCode ? 'Restoring...' : 'Restore'}
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
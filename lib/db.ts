@@ -1,30 +1,264 @@
-import { sql } from "@vercel/postgres";
+import { db, sql, type VercelPoolClient } from "@vercel/postgres";
+import {
+  defaultMetadataFetcher,
+  type MetadataFetcher,
+  type PageMetadata,
+} from "@/lib/metadata";
+import { getQueryParam, mergeQueryParams, removeQueryParams } from "@/lib/query";
+import type { RoutingRule } from "@/lib/rules";
 
 export interface ShortenedUrl {
   id: string;
   original_url: string;
   short_code: string;
+  title: string | null;
+  // Shown to visitors on the link's preview page
+  description: string | null;
   created_at: string;
+  expires_at: string | null;
   clicks: number;
+  // Part of clicks that came from scanning the link's QR code
+  qr_clicks: number;
+  // Number of redirects after which the link stops resolving (1 = one-time link)
+  max_clicks: number | null;
+  password_hash: string | null;
+  // Scheduled activation window; outside of it the link does not redirect
+  active_from: string | null;
+  active_until: string | null;
+  // Shown on the "coming soon" page before active_from
+  coming_soon_message: string | null;
+  // Set while the link sits in the trash
+  deleted_at: string | null;
+  collection_id: string | null;
+  // Metadata of the destination page, fetched when the link is stored
+  page_title: string | null;
+  page_description: string | null;
+  favicon_url: string | null;
+  image_url: string | null;
+  // UTM parameters merged into the destination when the link was created
+  utm_source: string | null;
+  utm_medium: string | null;
+  utm_campaign: string | null;
+  utm_term: string | null;
+  utm_content: string | null;
+  // Query parameter added on redirect: "name=value", "off", or null for the instance default
+  redirect_marker: string | null;
+  // Pass the visitor's query parameters on to the destination
+  forward_query: boolean;
+  // Destinations for visitors on these devices, instead of original_url
+  ios_url: string | null;
+  android_url: string | null;
+  desktop_url: string | null;
+  // Destinations by the visitor's country (ISO 3166-1 alpha-2 code)
+  geo_targets: Record<string, string> | null;
+  // Destinations by the visitor's language (lowercase language tag, e.g. "pt-br")
+  language_targets: Record<string, string> | null;
+  // Rules by time of day, weekday and other conditions, tried in order before any other targeting
+  routing_rules: RoutingRule[] | null;
+  // Keep returning visitors on the A/B variant they were first served
+  sticky_variants: boolean;
   userEmail: string;
+  // Names of the link's tags, loaded for the owner's views only
+  tags?: string[];
+  // A/B variants, loaded for the owner's views and for redirects
+  variants?: LinkVariant[];
+  // Set when a dedupe request returned this existing link instead of creating one
+  reused?: boolean;
 }
 
+// One of the destinations a link rotates between, with the visits it was served for
+export interface LinkVariant {
+  id: string;
+  link_id: string;
+  url: string;
+  // Share of the visits relative to the other variants; 0 pauses the variant
+  weight: number;
+  clicks: number;
+}
+
+// An A/B variant to store with a link
+export interface LinkVariantInput {
+  url: string;
+  weight: number;
+}
+
+// Campaign parameters of a link, stored apart from the destination for reporting
+export interface UtmParams {
+  source?: string;
+  medium?: string;
+  campaign?: string;
+  term?: string;
+  content?: string;
+}
+
+// Where a visit came from: a scanned QR code or the plain short URL
+export type ClickSource = "qr" | "direct";
+
+// Optional settings of a new shortened URL
+export interface ShortenedUrlOptions {
+  title?: string | null;
+  description?: string | null;
+  // Return the owner's existing link for the same normalized URL instead of
+  // creating a new one (only applies to generated short codes and plain
+  // links, i.e. without a title, description, tags, collection or any of the
+  // access settings or targeting below)
+  dedupe?: boolean;
+  expiresAt?: string | null;
+  maxClicks?: number | null;
+  passwordHash?: string | null;
+  activeFrom?: string | null;
+  activeUntil?: string | null;
+  comingSoonMessage?: string | null;
+  tags?: string[];
+  // Ignored unless the collection belongs to the link's owner
+  collectionId?: string | null;
+  metadata?: PageMetadata | null;
+  // Only stored; the caller merges them into the destination
+  utm?: UtmParams;
+  redirectMarker?: string | null;
+  forwardQuery?: boolean;
+  iosUrl?: string | null;
+  androidUrl?: string | null;
+  desktopUrl?: string | null;
+  geoTargets?: Record<string, string> | null;
+  languageTargets?: Record<string, string> | null;
+  routingRules?: RoutingRule[] | null;
+  variants?: LinkVariantInput[];
+  stickyVariants?: boolean;
+}
+
+// Changes to an existing shortened URL; omitted fields stay as they are
+export interface ShortenedUrlChanges {
+  originalUrl?: string;
+  // Renames the link, e.g. to a new alias
+  shortCode?: string;
+  title?: string | null;
+  description?: string | null;
+  expiresAt?: string | null;
+  maxClicks?: number | null;
+  passwordHash?: string | null;
+  activeFrom?: string | null;
+  activeUntil?: string | null;
+  comingSoonMessage?: string | null;
+  // Replaces all of the link's tags
+  tags?: string[];
+  // Ignored unless the collection belongs to the link's owner; null removes the link from its collection
+  collectionId?: string | null;
+  metadata?: PageMetadata | null;
+  // null goes back to the instance default
+  redirectMarker?: string | null;
+  forwardQuery?: boolean;
+  // null removes the device's destination
+  iosUrl?: string | null;
+  androidUrl?: string | null;
+  desktopUrl?: string | null;
+  // Replace all country (language) destinations; null (or an empty map) removes them
+  geoTargets?: Record<string, string> | null;
+  languageTargets?: Record<string, string> | null;
+  // Replaces all routing rules; null (or an empty list) removes them
+  routingRules?: RoutingRule[] | null;
+  // Replaces all A/B variants; a variant keeps its click count as long as its URL stays
+  variants?: LinkVariantInput[];
+  stickyVariants?: boolean;
+  // Set (null removes) these UTM parameters, in the destination and its columns
+  utm?: { [field in keyof UtmParams]?: string | null };
+}
+
+// Narrows down the owner's listing of links
+export interface ShortenedUrlFilter {
+  // Only links carrying all of these tags
+  tags?: string[];
+  // Only links in this collection
+  collectionId?: string;
+}
+
+// A named group of the owner's links
+export interface Collection {
+  id: string;
+  user_email: string;
+  name: string;
+  created_at: string;
+}
+
+// A collection with aggregates over the links in it (not counting the trash)
+export interface CollectionWithStats extends Collection {
+  link_count: number;
+  clicks: number;
+}
+
+// A recorded change of a link's destination
+export interface LinkRevision {
+  id: string;
+  link_id: string;
+  old_url: string;
+  new_url: string;
+  // Email of the user who made the change
+  changed_by: string | null;
+  created_at: string;
+}
+
+// A shortened URL to create in bulk
+export interface NewShortenedUrl {
+  originalUrl: string;
+  shortCode: string | ShortCodeSource;
+  options?: ShortenedUrlOptions;
+}
+
+// Outcome of a single entry of a bulk creation
+export type BulkCreateResult =
+  | { url: ShortenedUrl; error?: undefined }
+  | { url?: undefined; error: Error };
+
+// Either the pool's sql tag or one bound to a transaction's client
+type SqlTag = VercelPoolClient["sql"];
+
 // In-memory storage for local development
 let inMemoryUrls: ShortenedUrl[] = [];
 let nextId = 1;
+let nextCodeSequenceValue = 1;
+// Days a deleted link stays in the trash before it is purged
+export const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS) || 30;
+
+let inMemoryRevisions: LinkRevision[] = [];
+let nextRevisionId = 1;
+let inMemoryTags: { id: string; user_email: string; name: string }[] = [];
+let inMemoryLinkTags: { link_id: string; tag_id: string }[] = [];
+let nextTagId = 1;
+let inMemoryVariants: (LinkVariant & { position: number })[] = [];
+let nextVariantId = 1;
+let inMemoryCollections: Collection[] = [];
+let nextCollectionId = 1;
 
 // Check if we're in production with Vercel Postgres
 function isVercelPostgresAvailable() {
   return !!(process.env.POSTGRES_URL || process.env.DATABASE_URL);
 }
 
-// Initialize database table if it doesn't exist (Vercel Postgres only)
+let schemaSetup: Promise<boolean> | undefined;
+
+/**
+ * Initialize database tables if they don't exist (Vercel Postgres only).
+ * The schema is set up once per server instance, as ALTER TABLE locks the
+ * table even when there is nothing to change; a failed setup is retried on
+ * the next call.
+ */
 export async function initializeDatabase() {
   if (!isVercelPostgresAvailable()) {
     console.log("📝 Using in-memory storage for local development");
     return true;
   }
+  if (!schemaSetup) {
+    schemaSetup = setUpSchema().then((initialized) => {
+      if (!initialized) {
+        schemaSetup = undefined;
+      }
+      return initialized;
+    });
+  }
+  return schemaSetup;
+}
 
+async function setUpSchema() {
   try {
     await sql`
       CREATE TABLE IF NOT EXISTS shortened_urls (
@@ -37,11 +271,117 @@ export async function initializeDatabase() {
       )
     `;
 
+    // Columns added after the initial release
+    await sql`ALTER TABLE shortened_urls ADD COLUMN IF NOT EXISTS title TEXT`;
+    await sql`ALTER TABLE shortened_urls ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP WITH TIME ZONE`;
+    await sql`ALTER TABLE shortened_urls ADD COLUMN IF NOT EXISTS max_clicks INTEGER`;
+    await sql`ALTER TABLE shortened_urls ADD COLUMN IF NOT EXISTS password_hash TEXT`;
+    await sql`ALTER TABLE shortened_urls ADD COLUMN IF NOT EXISTS active_from TIMESTAMP WITH TIME ZONE`;
+    await sql`ALTER TABLE shortened_urls ADD COLUMN IF NOT EXISTS active_until TIMESTAMP WITH TIME ZONE`;
+    await sql`ALTER TABLE shortened_urls ADD COLUMN IF NOT EXISTS coming_soon_message TEXT`;
+    await sql`ALTER TABLE shortened_urls ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE`;
+    await sql`ALTER TABLE shortened_urls ADD COLUMN IF NOT EXISTS page_title TEXT`;
+    await sql`ALTER TABLE shortened_urls ADD COLUMN IF NOT EXISTS page_description TEXT`;
+    await sql`ALTER TABLE shortened_urls ADD COLUMN IF NOT EXISTS favicon_url TEXT`;
+    await sql`ALTER TABLE shortened_urls ADD COLUMN IF NOT EXISTS image_url TEXT`;
+    await sql`ALTER TABLE shortened_urls ADD COLUMN IF NOT EXISTS description TEXT`;
+    await sql`ALTER TABLE shortened_urls ADD COLUMN IF NOT EXISTS qr_clicks INTEGER DEFAULT 0`;
+    await sql`ALTER TABLE shortened_urls ADD COLUMN IF NOT EXISTS utm_source TEXT`;
+    await sql`ALTER TABLE shortened_urls ADD COLUMN IF NOT EXISTS utm_medium TEXT`;
+    await sql`ALTER TABLE shortened_urls ADD COLUMN IF NOT EXISTS utm_campaign TEXT`;
+    await sql`ALTER TABLE shortened_urls ADD COLUMN IF NOT EXISTS utm_term TEXT`;
+    await sql`ALTER TABLE shortened_urls ADD COLUMN IF NOT EXISTS utm_content TEXT`;
+    await sql`ALTER TABLE shortened_urls ADD COLUMN IF NOT EXISTS redirect_marker TEXT`;
+    await sql`ALTER TABLE shortened_urls ADD COLUMN IF NOT EXISTS forward_query BOOLEAN DEFAULT FALSE`;
+    await sql`ALTER TABLE shortened_urls ADD COLUMN IF NOT EXISTS ios_url TEXT`;
+    await sql`ALTER TABLE shortened_urls ADD COLUMN IF NOT EXISTS android_url TEXT`;
+    await sql`ALTER TABLE shortened_urls ADD COLUMN IF NOT EXISTS desktop_url TEXT`;
+    await sql`ALTER TABLE shortened_urls ADD COLUMN IF NOT EXISTS geo_targets JSONB`;
+    await sql`ALTER TABLE shortened_urls ADD COLUMN IF NOT EXISTS language_targets JSONB`;
+    await sql`ALTER TABLE shortened_urls ADD COLUMN IF NOT EXISTS sticky_variants BOOLEAN DEFAULT FALSE`;
+    await sql`ALTER TABLE shortened_urls ADD COLUMN IF NOT EXISTS routing_rules JSONB`;
+
     // Create index for faster lookups
     await sql`
       CREATE INDEX IF NOT EXISTS idx_shortened_urls_short_code 
       ON shortened_urls(short_code)
     `;
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_shortened_urls_user_email_original_url
+      ON shortened_urls(user_email, original_url)
+    `;
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_shortened_urls_user_email_utm_campaign
+      ON shortened_urls(user_email, utm_campaign)
+    `;
+
+    await sql`
+      CREATE TABLE IF NOT EXISTS link_revisions (
+        id SERIAL PRIMARY KEY,
+        link_id INTEGER NOT NULL REFERENCES shortened_urls(id) ON DELETE CASCADE,
+        old_url TEXT NOT NULL,
+        new_url TEXT NOT NULL,
+        changed_by TEXT,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+      )
+    `;
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_link_revisions_link_id
+      ON link_revisions(link_id)
+    `;
+
+    // Tags are per owner and shared by their links
+    await sql`
+      CREATE TABLE IF NOT EXISTS tags (
+        id SERIAL PRIMARY KEY,
+        user_email TEXT NOT NULL,
+        name TEXT NOT NULL,
+        UNIQUE (user_email, name)
+      )
+    `;
+    await sql`
+      CREATE TABLE IF NOT EXISTS link_tags (
+        link_id INTEGER NOT NULL REFERENCES shortened_urls(id) ON DELETE CASCADE,
+        tag_id INTEGER NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+        PRIMARY KEY (link_id, tag_id)
+      )
+    `;
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_link_tags_tag_id
+      ON link_tags(tag_id)
+    `;
+
+    // Destinations of A/B tests, in the order the owner listed them
+    await sql`
+      CREATE TABLE IF NOT EXISTS link_variants (
+        id SERIAL PRIMARY KEY,
+        link_id INTEGER NOT NULL REFERENCES shortened_urls(id) ON DELETE CASCADE,
+        url TEXT NOT NULL,
+        weight INTEGER NOT NULL,
+        clicks INTEGER DEFAULT 0,
+        position INTEGER NOT NULL,
+        UNIQUE (link_id, url)
+      )
+    `;
+
+    await sql`
+      CREATE TABLE IF NOT EXISTS collections (
+        id SERIAL PRIMARY KEY,
+        user_email TEXT NOT NULL,
+        name TEXT NOT NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (user_email, name)
+      )
+    `;
+    // Deleting a collection keeps its links
+    await sql`ALTER TABLE shortened_urls ADD COLUMN IF NOT EXISTS collection_id INTEGER REFERENCES collections(id) ON DELETE SET NULL`;
+    await sql`
+      CREATE INDEX IF NOT EXISTS idx_shortened_urls_collection_id
+      ON shortened_urls(collection_id)
+    `;
+
+    // Counter backing the sequence-based short code strategies
+    await sql`CREATE SEQUENCE IF NOT EXISTS short_code_seq`;
 
     console.log("✅ Database initialized successfully");
     return true;
@@ -79,23 +419,93 @@ function normalizeUrl(url: string): string {
   return "https://" + trimmed;
 }
 
-// Create a new shortened URL
-export async function createShortenedUrl(
-  originalUrl: string,
+// Thrown when the owner already has a collection of that name
+export class CollectionNameConflictError extends Error {
+  constructor(public readonly collectionName: string) {
+    super(`Collection "${collectionName}" already exists`);
+    this.name = "CollectionNameConflictError";
+  }
+}
+
+// Thrown when a short code is already taken, as reported by the UNIQUE constraint on short_code
+export class ShortCodeConflictError extends Error {
+  constructor(public readonly shortCode: string) {
+    super(`Short code "${shortCode}" is already taken`);
+    this.name = "ShortCodeConflictError";
+  }
+}
+
+// Thrown when a change would leave a link's activation window ending before it starts
+export class InvalidScheduleError extends Error {
+  constructor() {
+    super("Activation end must be after activation start");
+    this.name = "InvalidScheduleError";
+  }
+}
+
+// Produces a candidate short code for the given (zero-based) allocation attempt
+export type ShortCodeSource = (attempt: number) => Promise<string>;
+
+// Upper bound of allocation attempts for generated short codes
+const MAX_ALLOCATION_ATTEMPTS = 50;
+
+// Destination pages fetched at once for the metadata of a bulk creation
+const METADATA_FETCH_CONCURRENCY = 4;
+
+// Insert a new row, returning undefined when the short code is already taken
+async function insertShortenedUrl(
+  normalizedUrl: string,
   shortCode: string,
-  userEmail: string
+  userEmail: string,
+  options: ShortenedUrlOptions,
+  query: SqlTag
 ) {
-  // Normalize URL - ensure it has a protocol
-  const normalizedUrl = normalizeUrl(originalUrl);
-
   if (!isVercelPostgresAvailable()) {
-    // Use in-memory storage
+    // Use in-memory storage; check and insert without awaiting in between,
+    // so concurrent requests cannot both claim the same code
+    if (inMemoryUrls.some((url) => url.short_code === shortCode)) {
+      return undefined;
+    }
     const newUrl: ShortenedUrl = {
       id: nextId.toString(),
       original_url: normalizedUrl,
       short_code: shortCode,
+      title: options.title ?? null,
+      description: options.description ?? null,
       created_at: new Date().toISOString(),
+      expires_at: options.expiresAt ?? null,
       clicks: 0,
+      qr_clicks: 0,
+      max_clicks: options.maxClicks ?? null,
+      password_hash: options.passwordHash ?? null,
+      active_from: options.activeFrom ?? null,
+      active_until: options.activeUntil ?? null,
+      coming_soon_message: options.comingSoonMessage ?? null,
+      deleted_at: null,
+      collection_id: inMemoryCollections.some(
+        (collection) =>
+          collection.id === options.collectionId && collection.user_email === userEmail
+      )
+        ? options.collectionId!
+        : null,
+      page_title: options.metadata?.title ?? null,
+      page_description: options.metadata?.description ?? null,
+      favicon_url: options.metadata?.faviconUrl ?? null,
+      image_url: options.metadata?.imageUrl ?? null,
+      utm_source: options.utm?.source ?? null,
+      utm_medium: options.utm?.medium ?? null,
+      utm_campaign: options.utm?.campaign ?? null,
+      utm_term: options.utm?.term ?? null,
+      utm_content: options.utm?.content ?? null,
+      redirect_marker: options.redirectMarker ?? null,
+      forward_query: options.forwardQuery ?? false,
+      ios_url: options.iosUrl ?? null,
+      android_url: options.androidUrl ?? null,
+      desktop_url: options.desktopUrl ?? null,
+      geo_targets: toTargetMap(options.geoTargets),
+      language_targets: toTargetMap(options.languageTargets),
+      routing_rules: toRoutingRules(options.routingRules),
+      sticky_variants: options.stickyVariants ?? false,
       userEmail,
     };
     inMemoryUrls.unshift(newUrl);
@@ -108,21 +518,533 @@ export async function createShortenedUrl(
     return newUrl;
   }
 
+  // Let the UNIQUE constraint decide instead of checking beforehand
+  const result = await query`
+    INSERT INTO shortened_urls (
+      original_url, short_code, title, expires_at, clicks, max_clicks, password_hash,
+      active_from, active_until, coming_soon_message, user_email, collection_id,
+      page_title, page_description, favicon_url, image_url, description,
+      utm_source, utm_medium, utm_campaign, utm_term, utm_content,
+      redirect_marker, forward_query, ios_url, android_url, desktop_url, geo_targets,
+      language_targets, sticky_variants, routing_rules
+    )
+    VALUES (
+      ${normalizedUrl}, ${shortCode}, ${options.title ?? null}, ${options.expiresAt ?? null}, 0, ${options.maxClicks ?? null}, ${options.passwordHash ?? null},
+      ${options.activeFrom ?? null}, ${options.activeUntil ?? null}, ${options.comingSoonMessage ?? null}, ${userEmail},
+      (SELECT id FROM collections WHERE id = ${options.collectionId ?? null}::integer AND user_email = ${userEmail}),
+      ${options.metadata?.title ?? null}, ${options.metadata?.description ?? null}, ${options.metadata?.faviconUrl ?? null}, ${options.metadata?.imageUrl ?? null},
+      ${options.description ?? null},
+      ${options.utm?.source ?? null}, ${options.utm?.medium ?? null}, ${options.utm?.campaign ?? null}, ${options.utm?.term ?? null}, ${options.utm?.content ?? null},
+      ${options.redirectMarker ?? null}, ${options.forwardQuery ?? false},
+      ${options.iosUrl ?? null}, ${options.androidUrl ?? null}, ${options.desktopUrl ?? null},
+      ${toTargetMapJson(options.geoTargets)}::jsonb, ${toTargetMapJson(options.languageTargets)}::jsonb,
+      ${options.stickyVariants ?? false}, ${toRoutingRulesJson(options.routingRules)}::jsonb
+    )
+    ON CONFLICT (short_code) DO NOTHING
+    RETURNING *
+  `;
+  if (result.rows.length === 0) {
+    return undefined;
+  }
+  console.log("✅ Created short URL in database:", {
+    shortCode,
+    originalUrl: normalizedUrl,
+    id: result.rows[0].id,
+  });
+  return result.rows[0] as ShortenedUrl;
+}
+
+// Replace the tags of a link, creating the owner's tags as needed
+async function setLinkTags(
+  linkId: string,
+  userEmail: string,
+  names: string[],
+  query: SqlTag
+) {
+  if (!isVercelPostgresAvailable()) {
+    // Use in-memory storage
+    const tagIds = names.map((name) => {
+      let tag = inMemoryTags.find(
+        (tag) => tag.user_email === userEmail && tag.name === name
+      );
+      if (!tag) {
+        tag = { id: (nextTagId++).toString(), user_email: userEmail, name };
+        inMemoryTags.push(tag);
+      }
+      return tag.id;
+    });
+    inMemoryLinkTags = inMemoryLinkTags
+      .filter((linkTag) => linkTag.link_id !== linkId)
+      .concat(tagIds.map((tagId) => ({ link_id: linkId, tag_id: tagId })));
+    return;
+  }
+
+  // Lists are passed as JSON, the sql tag only takes primitive values
+  const namesJson = JSON.stringify(names);
+  await query`DELETE FROM link_tags WHERE link_id = ${linkId}`;
+  if (names.length === 0) {
+    return;
+  }
+  await query`
+    INSERT INTO tags (user_email, name)
+    SELECT ${userEmail}, json_array_elements_text(${namesJson}::json)
+    ON CONFLICT (user_email, name) DO NOTHING
+  `;
+  await query`
+    INSERT INTO link_tags (link_id, tag_id)
+    SELECT ${linkId}, id FROM tags
+    WHERE user_email = ${userEmail}
+      AND name IN (SELECT json_array_elements_text(${namesJson}::json))
+  `;
+}
+
+// Load the tags of the given links
+async function withTags(urls: ShortenedUrl[], query: SqlTag = sql) {
+  if (urls.length === 0) {
+    return urls;
+  }
+
+  if (!isVercelPostgresAvailable()) {
+    // Use in-memory storage
+    return urls.map((url) => {
+      const tagIds = inMemoryLinkTags
+        .filter((linkTag) => linkTag.link_id === url.id)
+        .map((linkTag) => linkTag.tag_id);
+      const tags = inMemoryTags
+        .filter((tag) => tagIds.includes(tag.id))
+        .map((tag) => tag.name)
+        .sort();
+      return { ...url, tags };
+    });
+  }
+
+  const idsJson = JSON.stringify(urls.map((url) => Number(url.id)));
+  const result = await query`
+    SELECT lt.link_id, t.name FROM link_tags lt
+    JOIN tags t ON t.id = lt.tag_id
+    WHERE lt.link_id IN (SELECT json_array_elements_text(${idsJson}::json)::integer)
+    ORDER BY t.name
+  `;
+  return urls.map((url) => ({
+    ...url,
+    tags: result.rows
+      .filter((row) => String(row.link_id) === String(url.id))
+      .map((row) => row.name as string),
+  }));
+}
+
+// Replace the A/B variants of a link, keeping the click counts of the URLs it still rotates between
+async function setLinkVariants(
+  linkId: string,
+  variants: LinkVariantInput[],
+  query: SqlTag
+) {
+  if (!isVercelPostgresAvailable()) {
+    // Use in-memory storage
+    const previous = inMemoryVariants.filter((variant) => variant.link_id === linkId);
+    inMemoryVariants = inMemoryVariants
+      .filter((variant) => variant.link_id !== linkId)
+      .concat(
+        variants.map((variant, position) => {
+          const kept = previous.find((old) => old.url === variant.url);
+          return {
+            id: kept?.id ?? (nextVariantId++).toString(),
+            link_id: linkId,
+            url: variant.url,
+            weight: variant.weight,
+            clicks: kept?.clicks ?? 0,
+            position,
+          };
+        })
+      );
+    return;
+  }
+
+  // Lists are passed as JSON, the sql tag only takes primitive values
+  const variantsJson = JSON.stringify(variants);
+  await query`
+    DELETE FROM link_variants
+    WHERE link_id = ${linkId}
+      AND url NOT IN (SELECT v->>'url' FROM json_array_elements(${variantsJson}::json) v)
+  `;
+  if (variants.length === 0) {
+    return;
+  }
+  await query`
+    INSERT INTO link_variants (link_id, url, weight, position)
+    SELECT ${linkId}, v->>'url', (v->>'weight')::integer, n
+    FROM json_array_elements(${variantsJson}::json) WITH ORDINALITY AS t(v, n)
+    ON CONFLICT (link_id, url)
+    DO UPDATE SET weight = EXCLUDED.weight, position = EXCLUDED.position
+  `;
+}
+
+// Load the A/B variants of the given links
+async function withVariants(urls: ShortenedUrl[], query: SqlTag = sql) {
+  if (urls.length === 0) {
+    return urls;
+  }
+
+  if (!isVercelPostgresAvailable()) {
+    // Use in-memory storage
+    return urls.map((url) => ({
+      ...url,
+      variants: inMemoryVariants
+        .filter((variant) => variant.link_id === url.id)
+        .sort((a, b) => a.position - b.position)
+        .map(({ position, ...variant }) => variant),
+    }));
+  }
+
+  const idsJson = JSON.stringify(urls.map((url) => Number(url.id)));
+  const result = await query`
+    SELECT id, link_id, url, weight, clicks FROM link_variants
+    WHERE link_id IN (SELECT json_array_elements_text(${idsJson}::json)::integer)
+    ORDER BY position
+  `;
+  return urls.map((url) => ({
+    ...url,
+    variants: result.rows
+      .filter((row) => String(row.link_id) === String(url.id))
+      .map((row) => ({ ...row, id: String(row.id), link_id: String(row.link_id) }) as LinkVariant),
+  }));
+}
+
+// Load everything shown in the owner's views along with the given links
+async function withRelations(urls: ShortenedUrl[], query: SqlTag = sql) {
+  return withVariants(await withTags(urls, query), query);
+}
+
+// Whether a link restricts access in any way (expiry, click limit, password, schedule)
+function hasAccessSettings(url: ShortenedUrl | ShortenedUrlOptions) {
+  if ("short_code" in url) {
+    return !!(
+      url.expires_at ||
+      url.max_clicks ||
+      url.password_hash ||
+      url.active_from ||
+      url.active_until
+    );
+  }
+  return !!(
+    url.expiresAt ||
+    url.maxClicks ||
+    url.passwordHash ||
+    url.activeFrom ||
+    url.activeUntil
+  );
+}
+
+// Country or language destinations as stored: null rather than an empty map
+function toTargetMap(targets: Record<string, string> | null | undefined) {
+  return targets && Object.keys(targets).length > 0 ? targets : null;
+}
+
+function toTargetMapJson(targets: Record<string, string> | null | undefined) {
+  const stored = toTargetMap(targets);
+  return stored ? JSON.stringify(stored) : null;
+}
+
+// Routing rules as stored: null rather than an empty list
+function toRoutingRules(rules: RoutingRule[] | null | undefined) {
+  return rules && rules.length > 0 ? rules : null;
+}
+
+function toRoutingRulesJson(rules: RoutingRule[] | null | undefined) {
+  const stored = toRoutingRules(rules);
+  return stored ? JSON.stringify(stored) : null;
+}
+
+// Whether a link sends some visitors elsewhere than its destination, or changes the URL they arrive at
+function hasTargeting(url: ShortenedUrl | ShortenedUrlOptions) {
+  if ("short_code" in url) {
+    return !!(
+      url.redirect_marker ||
+      url.forward_query ||
+      url.ios_url ||
+      url.android_url ||
+      url.desktop_url ||
+      url.geo_targets ||
+      url.language_targets ||
+      url.routing_rules ||
+      // Variants are stored apart from the row
+      inMemoryVariants.some((variant) => variant.link_id === url.id)
+    );
+  }
+  return !!(
+    url.redirectMarker ||
+    url.forwardQuery ||
+    url.iosUrl ||
+    url.androidUrl ||
+    url.desktopUrl ||
+    toTargetMap(url.geoTargets) ||
+    toTargetMap(url.languageTargets) ||
+    toRoutingRules(url.routingRules) ||
+    url.variants?.length
+  );
+}
+
+// Whether new link settings ask for anything an existing link may not have
+function hasDetails(options: ShortenedUrlOptions) {
+  return !!(
+    options.title ||
+    options.description ||
+    options.tags?.length ||
+    options.collectionId
+  );
+}
+
+// Whether a request may be answered with an existing link instead of a new one
+function canDedupe(shortCode: string | ShortCodeSource, options: ShortenedUrlOptions) {
+  return (
+    !!options.dedupe &&
+    typeof shortCode !== "string" &&
+    !hasDetails(options) &&
+    !hasAccessSettings(options) &&
+    !hasTargeting(options)
+  );
+}
+
+// Find the owner's latest plain link (without access settings or targeting) to the given (normalized) URL
+async function findOwnedShortenedUrl(
+  normalizedUrl: string,
+  userEmail: string,
+  query: SqlTag
+) {
+  if (!isVercelPostgresAvailable()) {
+    // Use in-memory storage
+    return inMemoryUrls.find(
+      (url) =>
+        url.original_url === normalizedUrl &&
+        url.userEmail === userEmail &&
+        !url.deleted_at &&
+        !hasAccessSettings(url) &&
+        !hasTargeting(url)
+    );
+  }
+
+  const result = await query`
+    SELECT * FROM shortened_urls
+    WHERE user_email = ${userEmail} AND original_url = ${normalizedUrl}
+      AND expires_at IS NULL AND max_clicks IS NULL AND password_hash IS NULL
+      AND active_from IS NULL AND active_until IS NULL AND deleted_at IS NULL
+      AND redirect_marker IS NULL AND forward_query IS NOT TRUE
+      AND ios_url IS NULL AND android_url IS NULL AND desktop_url IS NULL
+      AND geo_targets IS NULL AND language_targets IS NULL AND routing_rules IS NULL
+      AND NOT EXISTS (SELECT 1 FROM link_variants WHERE link_id = shortened_urls.id)
+    ORDER BY created_at DESC
+    LIMIT 1
+  `;
+  return result.rows[0] as ShortenedUrl | undefined;
+}
+
+// Insert with a fixed short code once, or with generated codes until one is
+// free; the destination's metadata is only fetched when a new link is created
+async function allocateShortenedUrl(
+  originalUrl: string,
+  shortCode: string | ShortCodeSource,
+  userEmail: string,
+  options: ShortenedUrlOptions,
+  query: SqlTag,
+  fetchMetadata?: MetadataFetcher
+) {
+  // Normalize URL - ensure it has a protocol
+  const normalizedUrl = normalizeUrl(originalUrl);
+
+  if (canDedupe(shortCode, options)) {
+    const existing = await findOwnedShortenedUrl(
+      normalizedUrl,
+      userEmail,
+      query
+    );
+    if (existing) {
+      console.log("♻️ Reusing existing short URL:", existing.short_code);
+      return { ...existing, reused: true };
+    }
+  }
+
+  if (fetchMetadata) {
+    options = { ...options, metadata: await fetchMetadata(normalizedUrl) };
+  }
+
+  const maxAttempts =
+    typeof shortCode === "string" ? 1 : MAX_ALLOCATION_ATTEMPTS;
+
+  let candidate = "";
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    candidate =
+      typeof shortCode === "string" ? shortCode : await shortCode(attempt);
+    const created = await insertShortenedUrl(
+      normalizedUrl,
+      candidate,
+      userEmail,
+      options,
+      query
+    );
+    if (created) {
+      if (options.tags?.length) {
+        await setLinkTags(created.id, userEmail, options.tags, query);
+      }
+      if (options.variants?.length) {
+        await setLinkVariants(created.id, options.variants, query);
+      }
+      return created;
+    }
+    console.log("⚠️ Short code already taken:", candidate);
+  }
+  throw new ShortCodeConflictError(candidate);
+}
+
+/**
+ * Create a new shortened URL.
+ *
+ * A fixed short code (e.g. an alias) is tried once; a code source is asked
+ * for a new candidate after every conflict. Throws ShortCodeConflictError
+ * when no free code could be allocated. The destination page's metadata is
+ * fetched with fetchMetadata and stored along with a new link; an existing
+ * link returned for a dedupe request comes back marked as reused.
+ */
+export async function createShortenedUrl(
+  originalUrl: string,
+  shortCode: string | ShortCodeSource,
+  userEmail: string,
+  options: ShortenedUrlOptions = {},
+  fetchMetadata: MetadataFetcher = defaultMetadataFetcher
+) {
   try {
-    const result = await sql`
-      INSERT INTO shortened_urls (original_url, short_code, clicks, user_email)
-      VALUES (${normalizedUrl}, ${shortCode}, 0, ${userEmail})
-      RETURNING *
-    `;
-    console.log("✅ Created short URL in database:", {
+    const url = await allocateShortenedUrl(
+      originalUrl,
       shortCode,
-      originalUrl: normalizedUrl,
-      id: result.rows[0].id,
-    });
-    return result.rows[0] as ShortenedUrl;
+      userEmail,
+      options,
+      sql,
+      fetchMetadata
+    );
+    const [tagged] = await withRelations([url]);
+    return tagged;
+  } catch (error) {
+    if (!(error instanceof ShortCodeConflictError)) {
+      console.error("❌ Error creating shortened URL:", error);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Fetch the destination metadata of bulk entries, a few pages at a time, and
+ * return the entries with it in their options. Each URL is fetched once;
+ * entries that an existing link will answer (see canDedupe) are skipped.
+ */
+async function withBulkMetadata(
+  entries: NewShortenedUrl[],
+  userEmail: string,
+  fetchMetadata: MetadataFetcher
+) {
+  const fetches = new Map<string, Promise<PageMetadata | null>>();
+  const prepared: NewShortenedUrl[] = [];
+  let next = 0;
+
+  const worker = async () => {
+    while (next < entries.length) {
+      const index = next++;
+      const entry = entries[index];
+      const options = entry.options ?? {};
+      const normalizedUrl = normalizeUrl(entry.originalUrl);
+      if (
+        canDedupe(entry.shortCode, options) &&
+        (await findOwnedShortenedUrl(normalizedUrl, userEmail, sql))
+      ) {
+        prepared[index] = entry;
+        continue;
+      }
+      if (!fetches.has(normalizedUrl)) {
+        fetches.set(normalizedUrl, fetchMetadata(normalizedUrl));
+      }
+      const metadata = await fetches.get(normalizedUrl)!;
+      prepared[index] = { ...entry, options: { ...options, metadata } };
+    }
+  };
+
+  const workers: Promise<void>[] = [];
+  for (let i = 0; i < Math.min(METADATA_FETCH_CONCURRENCY, entries.length); i++) {
+    workers.push(worker());
+  }
+  await Promise.all(workers);
+  return prepared;
+}
+
+/**
+ * Create many shortened URLs in one transaction.
+ *
+ * Short code conflicts are reported per entry and do not affect the other
+ * entries; any other error rolls back the whole batch and is rethrown. The
+ * destination pages' metadata is fetched with fetchMetadata before the
+ * transaction starts, so slow pages do not hold it open.
+ */
+export async function createShortenedUrls(
+  newEntries: NewShortenedUrl[],
+  userEmail: string,
+  fetchMetadata: MetadataFetcher = defaultMetadataFetcher
+): Promise<BulkCreateResult[]> {
+  const entries = await withBulkMetadata(newEntries, userEmail, fetchMetadata);
+  const results: BulkCreateResult[] = [];
+
+  const allocateAll = async (query: SqlTag) => {
+    for (const entry of entries) {
+      try {
+        const url = await allocateShortenedUrl(
+          entry.originalUrl,
+          entry.shortCode,
+          userEmail,
+          entry.options ?? {},
+          query
+        );
+        const [tagged] = await withRelations([url], query);
+        results.push({ url: tagged });
+      } catch (error) {
+        if (!(error instanceof ShortCodeConflictError)) {
+          throw error;
+        }
+        results.push({ error });
+      }
+    }
+  };
+
+  if (!isVercelPostgresAvailable()) {
+    // Use in-memory storage; undo the entries created so far on failure,
+    // leaving the existing links that dedupe returned alone
+    try {
+      await allocateAll(sql);
+    } catch (error) {
+      const createdIds = results
+        .filter((result) => result.url && !result.url.reused)
+        .map((result) => result.url!.id);
+      inMemoryUrls = inMemoryUrls.filter((url) => !createdIds.includes(url.id));
+      inMemoryLinkTags = inMemoryLinkTags.filter(
+        (linkTag) => !createdIds.includes(linkTag.link_id)
+      );
+      inMemoryVariants = inMemoryVariants.filter(
+        (variant) => !createdIds.includes(variant.link_id)
+      );
+      console.error("❌ Error creating shortened URLs in bulk:", error);
+      throw error;
+    }
+    return results;
+  }
+
+  const client = await db.connect();
+  try {
+    await client.sql`BEGIN`;
+    await allocateAll(client.sql.bind(client));
+    await client.sql`COMMIT`;
+    console.log("✅ Created short URLs in bulk:", results.length);
+    return results;
   } catch (error) {
-    console.error("❌ Error creating shortened URL:", error);
+    await client.sql`ROLLBACK`;
+    console.error("❌ Error creating shortened URLs in bulk:", error);
     throw error;
+  } finally {
+    client.release();
   }
 }
 
@@ -130,19 +1052,21 @@ export async function createShortenedUrl(
 export async function getShortenedUrl(shortCode: string) {
   if (!isVercelPostgresAvailable()) {
     // Use in-memory storage
-    const found = inMemoryUrls.find((url) => url.short_code === shortCode);
+    const found = inMemoryUrls.find(
+      (url) => url.short_code === shortCode && !url.deleted_at
+    );
     console.log(
       "🔍 Looking for short code in memory:",
       shortCode,
       found ? "✅ Found" : "❌ Not found"
     );
-    return found;
+    return found && (await withVariants([found]))[0];
   }
 
   try {
     const result = await sql`
       SELECT * FROM shortened_urls 
-      WHERE short_code = ${shortCode}
+      WHERE short_code = ${shortCode} AND deleted_at IS NULL
       LIMIT 1
     `;
     const found = result.rows[0] as ShortenedUrl | undefined;
@@ -151,14 +1075,14 @@ export async function getShortenedUrl(shortCode: string) {
       shortCode,
       found ? "✅ Found" : "❌ Not found"
     );
-    return found;
+    return found && (await withVariants([found]))[0];
   } catch (error) {
     console.error("❌ Error getting shortened URL:", error);
     throw error;
   }
 }
 
-// Check if short code exists
+// Check if short code exists, including links in the trash
 export async function shortCodeExists(shortCode: string) {
   if (!isVercelPostgresAvailable()) {
     // Use in-memory storage
@@ -178,86 +1102,691 @@ export async function shortCodeExists(shortCode: string) {
   }
 }
 
-// Increment click counter
-export async function incrementClicks(shortCode: string) {
+// Get the next value of the short code sequence
+export async function nextCodeSequence(): Promise<number> {
   if (!isVercelPostgresAvailable()) {
     // Use in-memory storage
-    const url = inMemoryUrls.find((url) => url.short_code === shortCode);
-    if (url) {
-      url.clicks++;
-      console.log(
-        "📊 Incremented clicks for:",
-        shortCode,
-        "New count:",
-        url.clicks
-      );
+    return nextCodeSequenceValue++;
+  }
+
+  try {
+    const result = await sql`SELECT nextval('short_code_seq') AS value`;
+    return Number(result.rows[0].value);
+  } catch (error) {
+    console.error("❌ Error getting next code sequence value:", error);
+    throw error;
+  }
+}
+
+/**
+ * Increment click counter, and the QR counter for visits from a scanned code.
+ *
+ * The increment only happens while the link is below its click limit, in the
+ * same statement, so concurrent visitors cannot both take the last click.
+ * Returns whether the click was counted, i.e. whether the visit may proceed.
+ */
+export async function incrementClicks(
+  shortCode: string,
+  source: ClickSource = "direct"
+): Promise<boolean> {
+  if (!isVercelPostgresAvailable()) {
+    // Use in-memory storage; check and increment without awaiting in between
+    const url = inMemoryUrls.find(
+      (url) => url.short_code === shortCode && !url.deleted_at
+    );
+    if (!url || (url.max_clicks !== null && url.clicks >= url.max_clicks)) {
+      return false;
     }
-    return;
+    url.clicks++;
+    if (source === "qr") {
+      url.qr_clicks++;
+    }
+    console.log(
+      "📊 Incremented clicks for:",
+      shortCode,
+      "New count:",
+      url.clicks,
+      "Source:",
+      source
+    );
+    return true;
   }
 
   try {
-    await sql`
+    const result = await sql`
       UPDATE shortened_urls 
-      SET clicks = clicks + 1 
-      WHERE short_code = ${shortCode}
+      SET clicks = clicks + 1,
+        qr_clicks = qr_clicks + CASE WHEN ${source === "qr"} THEN 1 ELSE 0 END
+      WHERE short_code = ${shortCode} AND deleted_at IS NULL
+        AND (max_clicks IS NULL OR clicks < max_clicks)
+      RETURNING clicks
     `;
-    console.log("📊 Incremented clicks in database for:", shortCode);
+    if (result.rows.length === 0) {
+      return false;
+    }
+    console.log("📊 Incremented clicks in database for:", shortCode, "Source:", source);
+    return true;
   } catch (error) {
     console.error("❌ Error incrementing clicks:", error);
+    return false;
+  }
+}
+
+// Count a visit that was sent to the given A/B variant
+export async function incrementVariantClicks(variantId: string) {
+  if (!isVercelPostgresAvailable()) {
+    // Use in-memory storage
+    const variant = inMemoryVariants.find((variant) => variant.id === variantId);
+    if (variant) {
+      variant.clicks++;
+      console.log("📊 Incremented variant clicks:", variantId, "New count:", variant.clicks);
+    }
+    return;
+  }
+
+  try {
+    await sql`UPDATE link_variants SET clicks = clicks + 1 WHERE id = ${variantId}`;
+    console.log("📊 Incremented variant clicks in database:", variantId);
+  } catch (error) {
+    console.error("❌ Error incrementing variant clicks:", error);
   }
 }
 
 // Get all shortened URLs (latest first)
 export async function getAllShortenedUrls(
   userEmail: string,
-  limit: number = 50
+  limit: number = 50,
+  filter: ShortenedUrlFilter = {}
 ) {
   if (!userEmail) throw new Error("userEmail is required");
+  const tags = filter.tags ?? [];
+  const collectionId = filter.collectionId ?? null;
   if (!isVercelPostgresAvailable()) {
     // Use in-memory storage
-    if (userEmail) {
-      return inMemoryUrls
-        .filter((url) => url.userEmail === userEmail)
-        .slice(0, limit);
+    const urls = await withRelations(
+      inMemoryUrls.filter(
+        (url) =>
+          url.userEmail === userEmail &&
+          !url.deleted_at &&
+          (collectionId === null || url.collection_id === collectionId)
+      )
+    );
+    return urls
+      .filter((url) => tags.every((tag) => url.tags!.includes(tag)))
+      .slice(0, limit);
+  }
+
+  try {
+    const tagsJson = JSON.stringify(tags);
+    const result = await sql`
+      SELECT * FROM shortened_urls s
+      WHERE user_email = ${userEmail} AND deleted_at IS NULL
+        AND (${collectionId}::integer IS NULL OR collection_id = ${collectionId}::integer)
+        AND (
+          SELECT COUNT(*) FROM link_tags lt
+          JOIN tags t ON t.id = lt.tag_id
+          WHERE lt.link_id = s.id
+            AND t.name IN (SELECT json_array_elements_text(${tagsJson}::json))
+        ) = ${tags.length}
+      ORDER BY created_at DESC 
+      LIMIT ${limit}
+    `;
+    return await withRelations(result.rows as ShortenedUrl[]);
+  } catch (error) {
+    console.error("❌ Error getting all shortened URLs:", error);
+    return [];
+  }
+}
+
+// Columns written by updateShortenedUrl for each field of ShortenedUrlChanges
+// (except tags and variants, which live in tables of their own, the ownership-checked
+// collection, metadata and the JSON-encoded country and language destinations and rules)
+const CHANGE_COLUMNS = {
+  originalUrl: "original_url",
+  shortCode: "short_code",
+  title: "title",
+  description: "description",
+  expiresAt: "expires_at",
+  maxClicks: "max_clicks",
+  passwordHash: "password_hash",
+  activeFrom: "active_from",
+  activeUntil: "active_until",
+  comingSoonMessage: "coming_soon_message",
+  redirectMarker: "redirect_marker",
+  forwardQuery: "forward_query",
+  iosUrl: "ios_url",
+  androidUrl: "android_url",
+  desktopUrl: "desktop_url",
+  stickyVariants: "sticky_variants",
+} as const satisfies Record<
+  Exclude<
+    keyof ShortenedUrlChanges,
+    | "tags"
+    | "variants"
+    | "collectionId"
+    | "metadata"
+    | "geoTargets"
+    | "languageTargets"
+    | "routingRules"
+    | "utm"
+  >,
+  keyof ShortenedUrl
+>;
+
+// Columns of the UTM parameters, named like the query parameters themselves
+const UTM_COLUMNS = ["utm_source", "utm_medium", "utm_campaign", "utm_term", "utm_content"] as const;
+type UtmColumns = Pick<ShortenedUrl, (typeof UTM_COLUMNS)[number]>;
+
+/**
+ * The destination and UTM columns of a link after a change of its destination
+ * or UTM parameters. UTM parameters given with the changes win over those in
+ * a new destination, which win over the stored ones; stored ones that a new
+ * destination lacks are kept on it. The columns follow the destination.
+ */
+function applyUtmChanges(
+  stored: UtmColumns & Pick<ShortenedUrl, "original_url">,
+  changes: ShortenedUrlChanges
+) {
+  let originalUrl = changes.originalUrl ?? stored.original_url;
+  if (changes.originalUrl !== undefined) {
+    const missing = UTM_COLUMNS.filter(
+      (column) => stored[column] && getQueryParam(originalUrl, column) === null
+    );
+    originalUrl = mergeQueryParams(
+      originalUrl,
+      missing.map((column) => [column, stored[column]!])
+    );
+  }
+
+  const utm = changes.utm ?? {};
+  const fields = Object.keys(utm) as (keyof UtmParams)[];
+  originalUrl = removeQueryParams(
+    originalUrl,
+    fields.filter((field) => utm[field] === null).map((field) => `utm_${field}`)
+  );
+  originalUrl = mergeQueryParams(
+    originalUrl,
+    fields.filter((field) => utm[field]).map((field) => [`utm_${field}`, utm[field]!])
+  );
+
+  const columns = {} as UtmColumns;
+  for (const column of UTM_COLUMNS) {
+    columns[column] = getQueryParam(originalUrl, column) || null;
+  }
+  return { originalUrl, columns };
+}
+
+// Whether the owner has a (not deleted) link with the short code
+async function ownsShortenedUrl(shortCode: string, userEmail: string) {
+  if (!isVercelPostgresAvailable()) {
+    // Use in-memory storage
+    return inMemoryUrls.some(
+      (url) =>
+        url.short_code === shortCode && url.userEmail === userEmail && !url.deleted_at
+    );
+  }
+
+  const result = await sql`
+    SELECT 1 FROM shortened_urls
+    WHERE short_code = ${shortCode} AND user_email = ${userEmail} AND deleted_at IS NULL
+  `;
+  return result.rows.length > 0;
+}
+
+// Throw InvalidScheduleError unless the activation window, as changed, still ends after it starts
+function checkSchedule(
+  stored: Pick<ShortenedUrl, "active_from" | "active_until">,
+  changes: ShortenedUrlChanges
+) {
+  const activeFrom =
+    changes.activeFrom !== undefined ? changes.activeFrom : stored.active_from;
+  const activeUntil =
+    changes.activeUntil !== undefined ? changes.activeUntil : stored.active_until;
+  if (activeFrom && activeUntil && new Date(activeUntil) <= new Date(activeFrom)) {
+    throw new InvalidScheduleError();
+  }
+}
+
+/**
+ * Update the owner's shortened URL, returning the updated row or undefined
+ * when not found. A changed destination is recorded as a revision and its
+ * metadata fetched anew (only once the link is known to be the owner's); the
+ * link's UTM parameters are kept on it. Throws ShortCodeConflictError when
+ * renaming it to a short code that is already taken, and InvalidScheduleError
+ * when the activation window would end before it starts.
+ */
+export async function updateShortenedUrl(
+  shortCode: string,
+  userEmail: string,
+  changes: ShortenedUrlChanges,
+  fetchMetadata: MetadataFetcher = defaultMetadataFetcher
+) {
+  if (changes.originalUrl !== undefined) {
+    if (!(await ownsShortenedUrl(shortCode, userEmail))) {
+      return undefined;
     }
-    return inMemoryUrls.slice(0, limit);
+    const originalUrl = normalizeUrl(changes.originalUrl);
+    changes = { ...changes, originalUrl, metadata: await fetchMetadata(originalUrl) };
   }
+  const renameTo =
+    changes.shortCode !== undefined && changes.shortCode !== shortCode
+      ? changes.shortCode
+      : undefined;
 
+  if (!isVercelPostgresAvailable()) {
+    // Use in-memory storage
+    const url = inMemoryUrls.find(
+      (url) =>
+        url.short_code === shortCode && url.userEmail === userEmail && !url.deleted_at
+    );
+    if (!url) {
+      return undefined;
+    }
+    if (renameTo && inMemoryUrls.some((other) => other.short_code === renameTo)) {
+      throw new ShortCodeConflictError(renameTo);
+    }
+    checkSchedule(url, changes);
+    let utmColumns: UtmColumns | undefined;
+    if (changes.originalUrl !== undefined || changes.utm !== undefined) {
+      const applied = applyUtmChanges(url, changes);
+      changes = { ...changes, originalUrl: applied.originalUrl };
+      utmColumns = applied.columns;
+    }
+    if (changes.originalUrl !== undefined && changes.originalUrl !== url.original_url) {
+      inMemoryRevisions.unshift({
+        id: (nextRevisionId++).toString(),
+        link_id: url.id,
+        old_url: url.original_url,
+        new_url: changes.originalUrl,
+        changed_by: userEmail,
+        created_at: new Date().toISOString(),
+      });
+    }
+    for (const [field, column] of Object.entries(CHANGE_COLUMNS)) {
+      const value = changes[field as keyof ShortenedUrlChanges];
+      if (value !== undefined) {
+        Object.assign(url, { [column]: value });
+      }
+    }
+    if (utmColumns) {
+      Object.assign(url, utmColumns);
+    }
+    // Only assign collections of the owner
+    const collectionId = changes.collectionId;
+    const ownsCollection = inMemoryCollections.some(
+      (collection) => collection.id === collectionId && collection.user_email === userEmail
+    );
+    if (collectionId === null || (collectionId !== undefined && ownsCollection)) {
+      url.collection_id = collectionId;
+    }
+    if (changes.geoTargets !== undefined) {
+      url.geo_targets = toTargetMap(changes.geoTargets);
+    }
+    if (changes.languageTargets !== undefined) {
+      url.language_targets = toTargetMap(changes.languageTargets);
+    }
+    if (changes.routingRules !== undefined) {
+      url.routing_rules = toRoutingRules(changes.routingRules);
+    }
+    if (changes.metadata !== undefined) {
+      url.page_title = changes.metadata?.title ?? null;
+      url.page_description = changes.metadata?.description ?? null;
+      url.favicon_url = changes.metadata?.faviconUrl ?? null;
+      url.image_url = changes.metadata?.imageUrl ?? null;
+    }
+    if (changes.tags !== undefined) {
+      await setLinkTags(url.id, userEmail, changes.tags, sql);
+    }
+    if (changes.variants !== undefined) {
+      await setLinkVariants(url.id, changes.variants, sql);
+    }
+    console.log("✏️ Updated short URL in memory:", url.short_code);
+    const [tagged] = await withRelations([url]);
+    return tagged;
+  }
+
+  const client = await db.connect();
   try {
-    if (userEmail) {
-      const result = await sql`
-        SELECT * FROM shortened_urls 
-        WHERE user_email = ${userEmail}
-        ORDER BY created_at DESC 
-        LIMIT ${limit}
-      `;
-      return result.rows as ShortenedUrl[];
-    } else {
-      const result = await sql`
-        SELECT * FROM shortened_urls 
-        ORDER BY created_at DESC 
-        LIMIT ${limit}
+    await client.sql`BEGIN`;
+    // Lock the row, so concurrent edits record consistent revisions
+    const current = await client.sql`
+      SELECT id, original_url, active_from, active_until,
+        utm_source, utm_medium, utm_campaign, utm_term, utm_content
+      FROM shortened_urls
+      WHERE short_code = ${shortCode} AND user_email = ${userEmail} AND deleted_at IS NULL
+      FOR UPDATE
+    `;
+    if (current.rows.length === 0) {
+      await client.sql`ROLLBACK`;
+      return undefined;
+    }
+    const { id, original_url: oldUrl } = current.rows[0];
+    checkSchedule(current.rows[0] as ShortenedUrl, changes);
+    let utmColumns: UtmColumns | undefined;
+    if (changes.originalUrl !== undefined || changes.utm !== undefined) {
+      const applied = applyUtmChanges(current.rows[0] as ShortenedUrl, changes);
+      changes = { ...changes, originalUrl: applied.originalUrl };
+      utmColumns = applied.columns;
+    }
+
+    const setOriginalUrl = changes.originalUrl !== undefined;
+    const setTitle = changes.title !== undefined;
+    const setDescription = changes.description !== undefined;
+    const setExpiresAt = changes.expiresAt !== undefined;
+    const setMaxClicks = changes.maxClicks !== undefined;
+    const setPasswordHash = changes.passwordHash !== undefined;
+    const setActiveFrom = changes.activeFrom !== undefined;
+    const setActiveUntil = changes.activeUntil !== undefined;
+    const setComingSoonMessage = changes.comingSoonMessage !== undefined;
+    const setRedirectMarker = changes.redirectMarker !== undefined;
+    const setForwardQuery = changes.forwardQuery !== undefined;
+    const setIosUrl = changes.iosUrl !== undefined;
+    const setAndroidUrl = changes.androidUrl !== undefined;
+    const setDesktopUrl = changes.desktopUrl !== undefined;
+    const setGeoTargets = changes.geoTargets !== undefined;
+    const setLanguageTargets = changes.languageTargets !== undefined;
+    const setStickyVariants = changes.stickyVariants !== undefined;
+    const setRoutingRules = changes.routingRules !== undefined;
+    const setUtm = utmColumns !== undefined;
+    const setCollectionId = changes.collectionId !== undefined;
+    const collectionId = changes.collectionId ?? null;
+    const setMetadata = changes.metadata !== undefined;
+    const metadata = changes.metadata ?? null;
+    const result = await client.sql`
+      UPDATE shortened_urls SET
+        original_url = CASE WHEN ${setOriginalUrl} THEN ${changes.originalUrl ?? null} ELSE original_url END,
+        short_code = ${renameTo ?? shortCode},
+        title = CASE WHEN ${setTitle} THEN ${changes.title ?? null} ELSE title END,
+        description = CASE WHEN ${setDescription} THEN ${changes.description ?? null} ELSE description END,
+        expires_at = CASE WHEN ${setExpiresAt} THEN ${changes.expiresAt ?? null}::timestamptz ELSE expires_at END,
+        max_clicks = CASE WHEN ${setMaxClicks} THEN ${changes.maxClicks ?? null}::integer ELSE max_clicks END,
+        password_hash = CASE WHEN ${setPasswordHash} THEN ${changes.passwordHash ?? null} ELSE password_hash END,
+        active_from = CASE WHEN ${setActiveFrom} THEN ${changes.activeFrom ?? null}::timestamptz ELSE active_from END,
+        active_until = CASE WHEN ${setActiveUntil} THEN ${changes.activeUntil ?? null}::timestamptz ELSE active_until END,
+        coming_soon_message = CASE WHEN ${setComingSoonMessage} THEN ${changes.comingSoonMessage ?? null} ELSE coming_soon_message END,
+        redirect_marker = CASE WHEN ${setRedirectMarker} THEN ${changes.redirectMarker ?? null} ELSE redirect_marker END,
+        forward_query = CASE WHEN ${setForwardQuery} THEN ${changes.forwardQuery ?? false} ELSE forward_query END,
+        ios_url = CASE WHEN ${setIosUrl} THEN ${changes.iosUrl ?? null} ELSE ios_url END,
+        android_url = CASE WHEN ${setAndroidUrl} THEN ${changes.androidUrl ?? null} ELSE android_url END,
+        desktop_url = CASE WHEN ${setDesktopUrl} THEN ${changes.desktopUrl ?? null} ELSE desktop_url END,
+        geo_targets = CASE WHEN ${setGeoTargets} THEN ${toTargetMapJson(changes.geoTargets)}::jsonb ELSE geo_targets END,
+        language_targets = CASE WHEN ${setLanguageTargets} THEN ${toTargetMapJson(changes.languageTargets)}::jsonb ELSE language_targets END,
+        routing_rules = CASE WHEN ${setRoutingRules} THEN ${toRoutingRulesJson(changes.routingRules)}::jsonb ELSE routing_rules END,
+        sticky_variants = CASE WHEN ${setStickyVariants} THEN ${changes.stickyVariants ?? false} ELSE sticky_variants END,
+        utm_source = CASE WHEN ${setUtm} THEN ${utmColumns?.utm_source ?? null} ELSE utm_source END,
+        utm_medium = CASE WHEN ${setUtm} THEN ${utmColumns?.utm_medium ?? null} ELSE utm_medium END,
+        utm_campaign = CASE WHEN ${setUtm} THEN ${utmColumns?.utm_campaign ?? null} ELSE utm_campaign END,
+        utm_term = CASE WHEN ${setUtm} THEN ${utmColumns?.utm_term ?? null} ELSE utm_term END,
+        utm_content = CASE WHEN ${setUtm} THEN ${utmColumns?.utm_content ?? null} ELSE utm_content END,
+        collection_id = CASE
+          WHEN ${setCollectionId} AND (
+            ${collectionId}::integer IS NULL OR EXISTS (
+              SELECT 1 FROM collections WHERE id = ${collectionId}::integer AND user_email = ${userEmail}
+            )
+          ) THEN ${collectionId}::integer
+          ELSE collection_id
+        END,
+        page_title = CASE WHEN ${setMetadata} THEN ${metadata?.title ?? null} ELSE page_title END,
+        page_description = CASE WHEN ${setMetadata} THEN ${metadata?.description ?? null} ELSE page_description END,
+        favicon_url = CASE WHEN ${setMetadata} THEN ${metadata?.faviconUrl ?? null} ELSE favicon_url END,
+        image_url = CASE WHEN ${setMetadata} THEN ${metadata?.imageUrl ?? null} ELSE image_url END
+      WHERE id = ${id}
+      RETURNING *
+    `;
+    const url = result.rows[0] as ShortenedUrl;
+    if (url.original_url !== oldUrl) {
+      await client.sql`
+        INSERT INTO link_revisions (link_id, old_url, new_url, changed_by)
+        VALUES (${id}, ${oldUrl}, ${url.original_url}, ${userEmail})
       `;
-      return result.rows as ShortenedUrl[];
     }
+    const query = client.sql.bind(client);
+    if (changes.tags !== undefined) {
+      await setLinkTags(id, userEmail, changes.tags, query);
+    }
+    if (changes.variants !== undefined) {
+      await setLinkVariants(id, changes.variants, query);
+    }
+    const [tagged] = await withRelations([url], query);
+    await client.sql`COMMIT`;
+    console.log("✏️ Updated short URL in database:", url.short_code);
+    return tagged;
   } catch (error) {
-    console.error("❌ Error getting all shortened URLs:", error);
-    return [];
+    await client.sql`ROLLBACK`;
+    // A rename onto a taken code violates the UNIQUE constraint on short_code
+    if (renameTo && (error as { code?: string }).code === "23505") {
+      throw new ShortCodeConflictError(renameTo);
+    }
+    if (!(error instanceof InvalidScheduleError)) {
+      console.error("❌ Error updating shortened URL:", error);
+    }
+    throw error;
+  } finally {
+    client.release();
   }
 }
 
+// Destination changes of the owner's link, newest first; undefined when the link is not found
+export async function getLinkRevisions(
+  shortCode: string,
+  userEmail: string
+): Promise<LinkRevision[] | undefined> {
+  if (!isVercelPostgresAvailable()) {
+    // Use in-memory storage
+    const url = inMemoryUrls.find(
+      (url) =>
+        url.short_code === shortCode && url.userEmail === userEmail && !url.deleted_at
+    );
+    return url
+      ? inMemoryRevisions.filter((revision) => revision.link_id === url.id)
+      : undefined;
+  }
+
+  try {
+    const link = await sql`
+      SELECT id FROM shortened_urls
+      WHERE short_code = ${shortCode} AND user_email = ${userEmail} AND deleted_at IS NULL
+    `;
+    if (link.rows.length === 0) {
+      return undefined;
+    }
+    const result = await sql`
+      SELECT * FROM link_revisions
+      WHERE link_id = ${link.rows[0].id}
+      ORDER BY created_at DESC, id DESC
+    `;
+    return result.rows as LinkRevision[];
+  } catch (error) {
+    console.error("❌ Error getting link revisions:", error);
+    throw error;
+  }
+}
+
+/**
+ * Restore the destination the owner's link had before the given revision.
+ * The rollback is itself recorded as a revision; returns undefined when the
+ * link or revision is not found.
+ */
+export async function rollbackShortenedUrl(
+  shortCode: string,
+  userEmail: string,
+  revisionId: string
+) {
+  const revisions = await getLinkRevisions(shortCode, userEmail);
+  const revision = revisions?.find((revision) => revision.id.toString() === revisionId);
+  if (!revision) {
+    return undefined;
+  }
+  console.log("⏪ Rolling back short URL:", shortCode, "to revision", revisionId);
+  return updateShortenedUrl(shortCode, userEmail, { originalUrl: revision.old_url });
+}
+
+// The owner's collections with their aggregates, by name
+export async function getCollections(userEmail: string): Promise<CollectionWithStats[]> {
+  if (!isVercelPostgresAvailable()) {
+    // Use in-memory storage
+    return inMemoryCollections
+      .filter((collection) => collection.user_email === userEmail)
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((collection) => {
+        const urls = inMemoryUrls.filter(
+          (url) => url.collection_id === collection.id && !url.deleted_at
+        );
+        return {
+          ...collection,
+          link_count: urls.length,
+          clicks: urls.reduce((total, url) => total + url.clicks, 0),
+        };
+      });
+  }
+
+  try {
+    const result = await sql`
+      SELECT c.*, COUNT(s.id)::integer AS link_count, COALESCE(SUM(s.clicks), 0)::integer AS clicks
+      FROM collections c
+      LEFT JOIN shortened_urls s ON s.collection_id = c.id AND s.deleted_at IS NULL
+      WHERE c.user_email = ${userEmail}
+      GROUP BY c.id
+      ORDER BY c.name
+    `;
+    return result.rows as CollectionWithStats[];
+  } catch (error) {
+    console.error("❌ Error getting collections:", error);
+    throw error;
+  }
+}
+
+// One of the owner's collections with its aggregates
+export async function getCollection(id: string, userEmail: string) {
+  const collections = await getCollections(userEmail);
+  return collections.find((collection) => collection.id.toString() === id);
+}
+
+// Throws CollectionNameConflictError when the owner already has a collection of that name
+export async function createCollection(userEmail: string, name: string) {
+  if (!isVercelPostgresAvailable()) {
+    // Use in-memory storage
+    if (
+      inMemoryCollections.some(
+        (collection) => collection.user_email === userEmail && collection.name === name
+      )
+    ) {
+      throw new CollectionNameConflictError(name);
+    }
+    const collection: Collection = {
+      id: (nextCollectionId++).toString(),
+      user_email: userEmail,
+      name,
+      created_at: new Date().toISOString(),
+    };
+    inMemoryCollections.push(collection);
+    console.log("✅ Created collection in memory:", name);
+    return collection;
+  }
+
+  const result = await sql`
+    INSERT INTO collections (user_email, name)
+    VALUES (${userEmail}, ${name})
+    ON CONFLICT (user_email, name) DO NOTHING
+    RETURNING *
+  `;
+  if (result.rows.length === 0) {
+    throw new CollectionNameConflictError(name);
+  }
+  console.log("✅ Created collection in database:", name);
+  return result.rows[0] as Collection;
+}
+
+// Returns undefined when not found; throws CollectionNameConflictError when the name is taken
+export async function renameCollection(id: string, userEmail: string, name: string) {
+  if (!isVercelPostgresAvailable()) {
+    // Use in-memory storage
+    const collection = inMemoryCollections.find(
+      (collection) => collection.id === id && collection.user_email === userEmail
+    );
+    if (!collection) {
+      return undefined;
+    }
+    if (
+      inMemoryCollections.some(
+        (other) =>
+          other !== collection && other.user_email === userEmail && other.name === name
+      )
+    ) {
+      throw new CollectionNameConflictError(name);
+    }
+    collection.name = name;
+    return collection;
+  }
+
+  try {
+    const result = await sql`
+      UPDATE collections SET name = ${name}
+      WHERE id = ${id} AND user_email = ${userEmail}
+      RETURNING *
+    `;
+    return result.rows[0] as Collection | undefined;
+  } catch (error) {
+    // The UNIQUE constraint on (user_email, name)
+    if ((error as { code?: string }).code === "23505") {
+      throw new CollectionNameConflictError(name);
+    }
+    console.error("❌ Error renaming collection:", error);
+    throw error;
+  }
+}
+
+// Delete one of the owner's collections; its links stay, outside of any collection
+export async function deleteCollection(id: string, userEmail: string): Promise<boolean> {
+  if (!isVercelPostgresAvailable()) {
+    // Use in-memory storage
+    const idx = inMemoryCollections.findIndex(
+      (collection) => collection.id === id && collection.user_email === userEmail
+    );
+    if (idx === -1) {
+      return false;
+    }
+    inMemoryCollections.splice(idx, 1);
+    inMemoryUrls.forEach((url) => {
+      if (url.collection_id === id) {
+        url.collection_id = null;
+      }
+    });
+    return true;
+  }
+
+  try {
+    const result = await sql`
+      DELETE FROM collections WHERE id = ${id} AND user_email = ${userEmail}
+      RETURNING id
+    `;
+    return result.rows.length > 0;
+  } catch (error) {
+    console.error("❌ Error deleting collection:", error);
+    throw error;
+  }
+}
+
+/**
+ * Move the owner's link to the trash. It stops resolving but keeps its short
+ * code, so the code cannot be reissued until the link is purged.
+ */
 export async function deleteShortenedUrlByUser(shortCode: string, userEmail: string): Promise<boolean> {
   if (!isVercelPostgresAvailable()) {
-    const idx = inMemoryUrls.findIndex(url => url.short_code === shortCode && url.userEmail === userEmail);
-    if (idx !== -1) {
-      inMemoryUrls.splice(idx, 1);
+    const url = inMemoryUrls.find(
+      (url) =>
+        url.short_code === shortCode && url.userEmail === userEmail && !url.deleted_at
+    );
+    if (url) {
+      url.deleted_at = new Date().toISOString();
       return true;
     }
     return false;
   }
   try {
     const result = await sql`
-      DELETE FROM shortened_urls WHERE short_code = ${shortCode} AND user_email = ${userEmail}
+      UPDATE shortened_urls SET deleted_at = CURRENT_TIMESTAMP
+      WHERE short_code = ${shortCode} AND user_email = ${userEmail} AND deleted_at IS NULL
       RETURNING id
     `;
     return result.rows.length > 0;
@@ -266,3 +1795,102 @@ export async function deleteShortenedUrlByUser(shortCode: string, userEmail: str
     return false;
   }
 }
+
+// The owner's links in the trash (most recently deleted first)
+export async function getDeletedShortenedUrls(userEmail: string) {
+  if (!isVercelPostgresAvailable()) {
+    // Use in-memory storage
+    return withRelations(
+      inMemoryUrls
+        .filter((url) => url.userEmail === userEmail && url.deleted_at)
+        .sort((a, b) => b.deleted_at!.localeCompare(a.deleted_at!))
+    );
+  }
+
+  try {
+    const result = await sql`
+      SELECT * FROM shortened_urls
+      WHERE user_email = ${userEmail} AND deleted_at IS NOT NULL
+      ORDER BY deleted_at DESC
+    `;
+    return await withRelations(result.rows as ShortenedUrl[]);
+  } catch (error) {
+    console.error("❌ Error getting deleted shortened URLs:", error);
+    throw error;
+  }
+}
+
+// Take the owner's link out of the trash, returning undefined when it is not in there
+export async function restoreShortenedUrl(shortCode: string, userEmail: string) {
+  if (!isVercelPostgresAvailable()) {
+    // Use in-memory storage
+    const url = inMemoryUrls.find(
+      (url) =>
+        url.short_code === shortCode && url.userEmail === userEmail && url.deleted_at
+    );
+    if (!url) {
+      return undefined;
+    }
+    url.deleted_at = null;
+    console.log("♻️ Restored short URL in memory:", shortCode);
+    const [tagged] = await withRelations([url]);
+    return tagged;
+  }
+
+  try {
+    const result = await sql`
+      UPDATE shortened_urls SET deleted_at = NULL
+      WHERE short_code = ${shortCode} AND user_email = ${userEmail} AND deleted_at IS NOT NULL
+      RETURNING *
+    `;
+    if (result.rows.length === 0) {
+      return undefined;
+    }
+    console.log("♻️ Restored short URL in database:", shortCode);
+    const [tagged] = await withRelations(result.rows as ShortenedUrl[]);
+    return tagged;
+  } catch (error) {
+    console.error("❌ Error restoring shortened URL:", error);
+    throw error;
+  }
+}
+
+// Permanently delete links that have been in the trash for longer than the retention period
+export async function purgeDeletedShortenedUrls(now: Date = new Date()): Promise<number> {
+  const cutoff = new Date(
+    now.getTime() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000
+  ).toISOString();
+
+  if (!isVercelPostgresAvailable()) {
+    // Use in-memory storage
+    const purgedIds = inMemoryUrls
+      .filter((url) => url.deleted_at && url.deleted_at <= cutoff)
+      .map((url) => url.id);
+    inMemoryUrls = inMemoryUrls.filter((url) => !purgedIds.includes(url.id));
+    inMemoryRevisions = inMemoryRevisions.filter(
+      (revision) => !purgedIds.includes(revision.link_id)
+    );
+    inMemoryLinkTags = inMemoryLinkTags.filter(
+      (linkTag) => !purgedIds.includes(linkTag.link_id)
+    );
+    inMemoryVariants = inMemoryVariants.filter(
+      (variant) => !purgedIds.includes(variant.link_id)
+    );
+    console.log("🗑️ Purged short URLs from memory:", purgedIds.length);
+    return purgedIds.length;
+  }
+
+  try {
+    // Revisions, tag assignments and variants go along through ON DELETE CASCADE
+    const result = await sql`
+      DELETE FROM shortened_urls
+      WHERE deleted_at IS NOT NULL AND deleted_at <= ${cutoff}
+      RETURNING id
+    `;
+    console.log("🗑️ Purged short URLs from database:", result.rows.length);
+    return result.rows.length;
+  } catch (error) {
+    console.error("❌ Error purging deleted shortened URLs:", error);
+    throw error;
+  }
+}
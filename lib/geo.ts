@@ -0,0 +1,72 @@
+import maxmind, { type CountryResponse, type Reader } from "maxmind";
+
+// Request headers, as returned by next/headers or carried by a Request
+interface HeaderSource {
+  get(name: string): string | null;
+}
+
+// Header in which the platform passes the visitor's country, e.g. cf-ipcountry behind Cloudflare
+export function getCountryHeaderName() {
+  return (process.env.GEO_COUNTRY_HEADER || "x-vercel-ip-country").toLowerCase();
+}
+
+let geoIpReader: Promise<Reader<CountryResponse> | null> | undefined;
+
+// The GeoIP country database at GEOIP_DATABASE_PATH (MaxMind .mmdb), opened once
+function getGeoIpReader() {
+  const path = process.env.GEOIP_DATABASE_PATH;
+  if (!path) {
+    return Promise.resolve(null);
+  }
+  if (!geoIpReader) {
+    geoIpReader = maxmind.open<CountryResponse>(path).catch((error) => {
+      console.error("❌ Could not open GeoIP database:", path, error);
+      return null;
+    });
+  }
+  return geoIpReader;
+}
+
+// The visitor's address, as forwarded by the proxy in front of the app. The
+// first X-Forwarded-For entry is whatever the client claims, good enough to
+// look up a country but not to tell visitors apart (see getProxiedClientIp).
+function getClientIp(headers: HeaderSource) {
+  const forwardedFor = headers.get("x-forwarded-for");
+  const ip = forwardedFor ? forwardedFor.split(",")[0].trim() : headers.get("x-real-ip");
+  return ip && maxmind.validate(ip) ? ip : null;
+}
+
+// The address that the proxy in front of the app saw the request come from:
+// the last X-Forwarded-For entry, which the proxy appended itself
+export function getProxiedClientIp(headers: HeaderSource) {
+  const forwardedFor = headers.get("x-forwarded-for");
+  const ip = forwardedFor
+    ? forwardedFor.split(",").pop()!.trim()
+    : headers.get("x-real-ip");
+  return ip && maxmind.validate(ip) ? ip : null;
+}
+
+/**
+ * Resolve the visitor's country as an uppercase ISO 3166-1 alpha-2 code,
+ * from the configured country header or else the local GeoIP database.
+ * Returns null when the country is unknown.
+ */
+export async function resolveCountry(headers: HeaderSource): Promise<string | null> {
+  const fromHeader = headers.get(getCountryHeaderName())?.trim().toUpperCase();
+  // Some platforms send XX when the country is unknown
+  if (fromHeader && /^[A-Z]{2}$/.test(fromHeader) && fromHeader !== "XX") {
+    return fromHeader;
+  }
+
+  const ip = getClientIp(headers);
+  if (!ip) {
+    return null;
+  }
+  const reader = await getGeoIpReader();
+  try {
+    return reader?.get(ip)?.country?.iso_code?.toUpperCase() ?? null;
+  } catch (error) {
+    console.error("❌ GeoIP lookup failed:", ip, error);
+    return null;
+  }
+}
@@ -0,0 +1,1271 @@
+import type {
+  ClickSource,
+  CollectionWithStats,
+  LinkRevision,
+  LinkVariantInput,
+  ShortCodeSource,
+  ShortenedUrl,
+  ShortenedUrlChanges,
+  ShortenedUrlOptions,
+  UtmParams,
+} from "@/lib/db";
+import { TRASH_RETENTION_DAYS } from "@/lib/db";
+import { hashPassword } from "@/lib/password";
+import { mergeQueryParams, type QueryParams } from "@/lib/query";
+import { isValidTimeZone, WEEKDAYS, type RoutingRule, type Weekday } from "@/lib/rules";
+import {
+  CodeStrategy,
+  createCodeGenerator,
+  getCodeGeneratorOptions,
+  validateAlias,
+  validateCodeOptions,
+} from "@/lib/shortcode";
+
+export const TITLE_MAX_LENGTH = 200;
+export const DESCRIPTION_MAX_LENGTH = 500;
+export const PASSWORD_MIN_LENGTH = 4;
+export const PASSWORD_MAX_LENGTH = 128;
+export const COMING_SOON_MESSAGE_MAX_LENGTH = 500;
+export const TAG_MAX_LENGTH = 32;
+export const MAX_TAGS_PER_LINK = 10;
+export const COLLECTION_NAME_MAX_LENGTH = 50;
+export const UTM_VALUE_MAX_LENGTH = 200;
+export const MAX_GEO_TARGETS = 50;
+export const MAX_LANGUAGE_TARGETS = 50;
+export const MAX_VARIANTS = 10;
+export const VARIANT_WEIGHT_MAX = 1000;
+export const MAX_ROUTING_RULES = 20;
+
+// UTM fields, each accepted in request bodies as utm_<field>
+export const UTM_FIELDS = ["source", "medium", "campaign", "term", "content"] as const;
+
+// Query parameter that short URLs in generated QR codes carry, e.g. /abc?src=qr
+export const SOURCE_PARAM = "src";
+export const QR_SOURCE = "qr";
+
+// Alternative destinations by device, as accepted in request bodies
+const DEVICE_URL_FIELDS = ["iosUrl", "androidUrl", "desktopUrl"] as const;
+
+// Setting of a link's redirect marker that adds no marker at all
+export const REDIRECT_MARKER_OFF = "off";
+const DEFAULT_REDIRECT_MARKER = "from=slinker";
+const REDIRECT_MARKER_NAME_PATTERN = /^[A-Za-z0-9_.~-]{1,50}$/;
+export const REDIRECT_MARKER_VALUE_MAX_LENGTH = 100;
+
+// A link to create, as accepted by the shorten endpoints
+export interface LinkInput {
+  url: string;
+  alias?: string;
+  title?: string;
+  description?: string;
+  dedupe?: boolean;
+  expiresAt?: string;
+  maxClicks?: number;
+  password?: string;
+  activeFrom?: string;
+  activeUntil?: string;
+  comingSoonMessage?: string;
+  tags?: string[];
+  collectionId?: string;
+  utm?: UtmParams;
+  redirectMarker?: string;
+  forwardQuery?: boolean;
+  iosUrl?: string;
+  androidUrl?: string;
+  desktopUrl?: string;
+  geoTargets?: Record<string, string>;
+  languageTargets?: Record<string, string>;
+  routingRules?: RoutingRule[];
+  variants?: LinkVariantInput[];
+  stickyVariants?: boolean;
+  strategy?: CodeStrategy;
+  length?: number;
+}
+
+function isBlank(value: unknown) {
+  return value === undefined || value === null || value === "";
+}
+
+// Parse a (by default future) point in time, returning either an error message or its ISO representation
+function parseFutureTimestamp(
+  value: unknown,
+  name: string,
+  future: boolean = true
+): { error: string } | { value: string } {
+  const time = typeof value === "string" ? Date.parse(value) : NaN;
+  if (isNaN(time)) {
+    return { error: `${name} must be an ISO 8601 date` };
+  }
+  if (future && time <= Date.now()) {
+    return { error: `${name} must be in the future` };
+  }
+  return { value: new Date(time).toISOString() };
+}
+
+function validateUrl(url: unknown): string | null {
+  if (isBlank(url)) {
+    return "URL is required";
+  }
+  try {
+    new URL(String(url));
+  } catch {
+    return "Invalid URL format";
+  }
+  return null;
+}
+
+function validateTitle(title: unknown): string | null {
+  if (typeof title !== "string" || title.length > TITLE_MAX_LENGTH) {
+    return `Title must be a string of at most ${TITLE_MAX_LENGTH} characters`;
+  }
+  return null;
+}
+
+function validateDescription(description: unknown): string | null {
+  if (typeof description !== "string" || description.length > DESCRIPTION_MAX_LENGTH) {
+    return `Description must be a string of at most ${DESCRIPTION_MAX_LENGTH} characters`;
+  }
+  return null;
+}
+
+function validatePassword(password: unknown): string | null {
+  if (
+    typeof password !== "string" ||
+    password.length < PASSWORD_MIN_LENGTH ||
+    password.length > PASSWORD_MAX_LENGTH
+  ) {
+    return `Password must be between ${PASSWORD_MIN_LENGTH} and ${PASSWORD_MAX_LENGTH} characters`;
+  }
+  return null;
+}
+
+/**
+ * Parse an activation window. Blank values become null, omitted ones stay
+ * undefined, so the result works for both new links and edits.
+ */
+function parseSchedule(
+  activeFrom: unknown,
+  activeUntil: unknown,
+  comingSoonMessage: unknown
+):
+  | { error: string }
+  | { value: Pick<ShortenedUrlChanges, "activeFrom" | "activeUntil" | "comingSoonMessage"> } {
+  const value: Pick<ShortenedUrlChanges, "activeFrom" | "activeUntil" | "comingSoonMessage"> = {};
+
+  if (activeFrom !== undefined) {
+    if (isBlank(activeFrom)) {
+      value.activeFrom = null;
+    } else {
+      const parsed = parseFutureTimestamp(activeFrom, "Activation start", false);
+      if ("error" in parsed) {
+        return parsed;
+      }
+      value.activeFrom = parsed.value;
+    }
+  }
+
+  if (activeUntil !== undefined) {
+    if (isBlank(activeUntil)) {
+      value.activeUntil = null;
+    } else {
+      const parsed = parseFutureTimestamp(activeUntil, "Activation end");
+      if ("error" in parsed) {
+        return parsed;
+      }
+      value.activeUntil = parsed.value;
+    }
+  }
+
+  if (value.activeFrom && value.activeUntil && value.activeUntil <= value.activeFrom) {
+    return { error: "Activation end must be after activation start" };
+  }
+
+  if (comingSoonMessage !== undefined) {
+    if (isBlank(comingSoonMessage)) {
+      value.comingSoonMessage = null;
+    } else if (
+      typeof comingSoonMessage !== "string" ||
+      comingSoonMessage.length > COMING_SOON_MESSAGE_MAX_LENGTH
+    ) {
+      return {
+        error: `Coming soon message must be a string of at most ${COMING_SOON_MESSAGE_MAX_LENGTH} characters`,
+      };
+    } else {
+      value.comingSoonMessage = comingSoonMessage.trim();
+    }
+  }
+
+  return { value };
+}
+
+/**
+ * Parse tags given as an array or a comma-separated string. Tags are
+ * lowercased and deduplicated, so "Spring Sale" and "spring sale" match.
+ */
+export function parseTags(value: unknown): { error: string } | { value: string[] } {
+  if (isBlank(value)) {
+    return { value: [] };
+  }
+  const items = typeof value === "string" ? value.split(",") : value;
+  if (!Array.isArray(items) || items.some((item) => typeof item !== "string")) {
+    return { error: "Tags must be an array of strings" };
+  }
+  const tags = Array.from(
+    new Set(
+      (items as string[])
+        .map((item) => item.trim().replace(/\s+/g, " ").toLowerCase())
+        .filter((item) => item !== "")
+    )
+  );
+  if (tags.some((tag) => tag.length > TAG_MAX_LENGTH || tag.includes(","))) {
+    return { error: `Tags must be at most ${TAG_MAX_LENGTH} characters and not contain commas` };
+  }
+  if (tags.length > MAX_TAGS_PER_LINK) {
+    return { error: `A link can have at most ${MAX_TAGS_PER_LINK} tags` };
+  }
+  return { value: tags };
+}
+
+// Parse the id of a collection, given as a number or a string of digits
+export function parseCollectionId(value: unknown): { error: string } | { value: string } {
+  const id = typeof value === "number" ? String(value) : value;
+  if (typeof id !== "string" || !/^[1-9]\d{0,9}$/.test(id)) {
+    return { error: "Invalid collection id" };
+  }
+  return { value: id };
+}
+
+export function validateCollectionName(name: unknown): string | null {
+  if (
+    typeof name !== "string" ||
+    name.trim() === "" ||
+    name.trim().length > COLLECTION_NAME_MAX_LENGTH
+  ) {
+    return `Collection name must be between 1 and ${COLLECTION_NAME_MAX_LENGTH} characters`;
+  }
+  return null;
+}
+
+// Parse the utm_* fields of a request body; blank fields are left out
+export function parseUtmParams(
+  body: Record<string, unknown>
+): { error: string } | { value: UtmParams } {
+  const utm: UtmParams = {};
+  for (const field of UTM_FIELDS) {
+    const value = body[`utm_${field}`];
+    if (isBlank(value)) {
+      continue;
+    }
+    if (typeof value !== "string" || value.trim().length > UTM_VALUE_MAX_LENGTH) {
+      return {
+        error: `utm_${field} must be a string of at most ${UTM_VALUE_MAX_LENGTH} characters`,
+      };
+    }
+    if (value.trim() !== "") {
+      utm[field] = value.trim();
+    }
+  }
+  return { value: utm };
+}
+
+// The UTM parameters as query parameters, in the conventional order
+export function toUtmQuery(utm: UtmParams): QueryParams {
+  return UTM_FIELDS.filter((field) => utm[field]).map((field) => [
+    `utm_${field}`,
+    utm[field]!,
+  ]);
+}
+
+// Read a map of destinations given as an object or as lines of "key=url"
+function parseTargetEntries(value: unknown): [string, unknown][] | null {
+  if (typeof value === "string") {
+    return value
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => line !== "")
+      .map((line): [string, string] => {
+        const index = line.indexOf("=");
+        if (index === -1) {
+          return [line, ""];
+        }
+        return [line.slice(0, index).trim(), line.slice(index + 1).trim()];
+      });
+  }
+  if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+    return Object.entries(value as Record<string, unknown>);
+  }
+  return null;
+}
+
+/**
+ * Parse destinations by country, given as an object or as lines of
+ * "CC=url". Country codes are ISO 3166-1 alpha-2 codes, stored uppercase.
+ */
+export function parseGeoTargets(
+  value: unknown
+): { error: string } | { value: Record<string, string> } {
+  if (isBlank(value)) {
+    return { value: {} };
+  }
+  const entries = parseTargetEntries(value);
+  if (!entries) {
+    return { error: "Country destinations must map country codes to URLs" };
+  }
+  if (entries.length > MAX_GEO_TARGETS) {
+    return { error: `A link can have at most ${MAX_GEO_TARGETS} country destinations` };
+  }
+  const geoTargets: Record<string, string> = {};
+  for (const [country, url] of entries) {
+    if (!/^[A-Za-z]{2}$/.test(country)) {
+      return { error: `Invalid country code "${country}", use two letters such as US or DE` };
+    }
+    const urlError = validateUrl(url);
+    if (urlError) {
+      return { error: `${country.toUpperCase()}: ${urlError}` };
+    }
+    geoTargets[country.toUpperCase()] = String(url).trim();
+  }
+  return { value: geoTargets };
+}
+
+const LANGUAGE_TAG_PATTERN = /^[A-Za-z]{2,3}(-[A-Za-z0-9]{1,8})*$/;
+
+/**
+ * Parse destinations by language, given as an object or as lines of
+ * "tag=url". Language tags (e.g. "de" or "pt-BR") are stored lowercase.
+ */
+export function parseLanguageTargets(
+  value: unknown
+): { error: string } | { value: Record<string, string> } {
+  if (isBlank(value)) {
+    return { value: {} };
+  }
+  const entries = parseTargetEntries(value);
+  if (!entries) {
+    return { error: "Language destinations must map language tags to URLs" };
+  }
+  if (entries.length > MAX_LANGUAGE_TARGETS) {
+    return { error: `A link can have at most ${MAX_LANGUAGE_TARGETS} language destinations` };
+  }
+  const languageTargets: Record<string, string> = {};
+  for (const [language, url] of entries) {
+    if (!LANGUAGE_TAG_PATTERN.test(language)) {
+      return { error: `Invalid language tag "${language}", use tags such as en or pt-BR` };
+    }
+    const urlError = validateUrl(url);
+    if (urlError) {
+      return { error: `${language}: ${urlError}` };
+    }
+    languageTargets[language.toLowerCase()] = String(url).trim();
+  }
+  return { value: languageTargets };
+}
+
+const RULE_DEVICES = ["ios", "android", "desktop", "other"];
+const RULE_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Expand weekdays given as "mon-fri" or "sat,sun" (ranges may wrap, e.g. "fri-mon"), or null when not weekdays
+function expandWeekdays(token: string): Weekday[] | null {
+  const days: Weekday[] = [];
+  for (const part of token.toLowerCase().split(",")) {
+    const [start, end = start, ...rest] = part.split("-");
+    const from = WEEKDAYS.indexOf(start as Weekday);
+    const to = WEEKDAYS.indexOf(end as Weekday);
+    if (from === -1 || to === -1 || rest.length > 0) {
+      return null;
+    }
+    for (let i = from; ; i = (i + 1) % WEEKDAYS.length) {
+      days.push(WEEKDAYS[i]);
+      if (i === to) {
+        break;
+      }
+    }
+  }
+  return days;
+}
+
+// Read the conditions of a rule line, e.g. "mon-fri 09:00-17:00 Europe/Berlin device:ios"
+function parseRuleConditions(conditions: string): Record<string, unknown> {
+  const rule: Record<string, unknown> = {};
+  for (const token of conditions.split(/\s+/).filter((token) => token !== "")) {
+    const days = expandWeekdays(token);
+    const [prefix, list = ""] = token.split(":");
+    const items = list.split(",").filter((item) => item !== "");
+    if (days) {
+      rule.days = days;
+    } else if (/^\d{1,2}:\d{2}-\d{1,2}:\d{2}$/.test(token)) {
+      [rule.from, rule.until] = token.split("-");
+    } else if (prefix.toLowerCase() === "device") {
+      rule.devices = items;
+    } else if (prefix.toLowerCase() === "country") {
+      rule.countries = items;
+    } else if (prefix.toLowerCase() === "lang") {
+      rule.languages = items;
+    } else {
+      rule.timeZone = token;
+    }
+  }
+  return rule;
+}
+
+// Validate a routing rule given as an object, returning either an error message or the rule
+function parseRoutingRule(value: unknown): { error: string } | { value: RoutingRule } {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return { error: "must be an object with a url and conditions" };
+  }
+  const { url, days, from, until, timeZone, devices, countries, languages } =
+    value as Record<string, unknown>;
+  const isStringList = (list: unknown): list is string[] =>
+    Array.isArray(list) && list.every((item) => typeof item === "string");
+
+  const urlError = validateUrl(url);
+  if (urlError) {
+    return { error: urlError };
+  }
+  const rule: RoutingRule = { url: String(url).trim() };
+
+  if (!isBlank(days)) {
+    const names = isStringList(days) ? days.map((day) => day.toLowerCase()) : null;
+    if (!names || names.some((day) => !WEEKDAYS.includes(day as Weekday))) {
+      return { error: "Days must be weekdays such as mon, tue or sat" };
+    }
+    rule.days = WEEKDAYS.filter((day) => names.includes(day));
+  }
+
+  if (!isBlank(from) || !isBlank(until)) {
+    if (typeof from !== "string" || typeof until !== "string") {
+      return { error: "A time window needs both a start and an end" };
+    }
+    const [start, end] = [from, until].map((time) => time.trim().padStart(5, "0"));
+    if (!RULE_TIME_PATTERN.test(start) || !RULE_TIME_PATTERN.test(end)) {
+      return { error: "Times must be given as HH:MM, e.g. 09:00-17:30" };
+    }
+    if (start === end) {
+      return { error: "A time window must not start and end at the same time" };
+    }
+    rule.from = start;
+    rule.until = end;
+  }
+
+  if (!isBlank(timeZone)) {
+    if (typeof timeZone !== "string" || !isValidTimeZone(timeZone.trim())) {
+      return { error: `Unknown time zone "${timeZone}", use names such as Europe/Berlin` };
+    }
+    rule.timeZone = timeZone.trim();
+  }
+
+  if (!isBlank(devices)) {
+    if (!isStringList(devices) || devices.some((device) => !RULE_DEVICES.includes(device))) {
+      return { error: `Devices must be any of ${RULE_DEVICES.join(", ")}` };
+    }
+    rule.devices = devices as RoutingRule["devices"];
+  }
+
+  if (!isBlank(countries)) {
+    if (!isStringList(countries) || countries.some((country) => !/^[A-Za-z]{2}$/.test(country))) {
+      return { error: "Countries must be two-letter codes such as US or DE" };
+    }
+    rule.countries = countries.map((country) => country.toUpperCase());
+  }
+
+  if (!isBlank(languages)) {
+    if (
+      !isStringList(languages) ||
+      languages.some((language) => !LANGUAGE_TAG_PATTERN.test(language))
+    ) {
+      return { error: "Languages must be language tags such as en or pt-BR" };
+    }
+    rule.languages = languages.map((language) => language.toLowerCase());
+  }
+
+  if (
+    !rule.days &&
+    !rule.from &&
+    !rule.devices?.length &&
+    !rule.countries?.length &&
+    !rule.languages?.length
+  ) {
+    return { error: "needs at least one condition" };
+  }
+  return { value: rule };
+}
+
+/**
+ * Parse the routing rules of a link, given as a list of rule objects or as
+ * lines of "conditions=url". Conditions are separated by spaces: weekdays
+ * ("mon-fri" or "sat,sun"), a time window ("09:00-17:00"), a time zone
+ * ("Europe/Berlin", UTC by default), "device:ios,android", "country:DE,AT"
+ * and "lang:de".
+ */
+export function parseRoutingRules(
+  value: unknown
+): { error: string } | { value: RoutingRule[] } {
+  if (isBlank(value)) {
+    return { value: [] };
+  }
+  let rules: unknown[];
+  if (typeof value === "string") {
+    rules = parseTargetEntries(value)!.map(([conditions, url]) => ({
+      ...parseRuleConditions(conditions),
+      url,
+    }));
+  } else if (Array.isArray(value)) {
+    rules = value;
+  } else {
+    return { error: "Routing rules must be a list of rules" };
+  }
+  if (rules.length > MAX_ROUTING_RULES) {
+    return { error: `A link can have at most ${MAX_ROUTING_RULES} routing rules` };
+  }
+  const routingRules: RoutingRule[] = [];
+  for (let index = 0; index < rules.length; index++) {
+    const parsed = parseRoutingRule(rules[index]);
+    if ("error" in parsed) {
+      return { error: `Rule ${index + 1}: ${parsed.error}` };
+    }
+    routingRules.push(parsed.value);
+  }
+  return { value: routingRules };
+}
+
+/**
+ * Parse the A/B variants of a link, given as a list of { url, weight } or as
+ * lines of "weight=url". Weights are whole numbers relative to each other;
+ * a weight of 0 pauses a variant.
+ */
+export function parseVariants(
+  value: unknown
+): { error: string } | { value: LinkVariantInput[] } {
+  if (isBlank(value)) {
+    return { value: [] };
+  }
+  let entries: [unknown, unknown][];
+  if (typeof value === "string") {
+    entries = parseTargetEntries(value)!;
+  } else if (Array.isArray(value)) {
+    entries = value.map((item): [unknown, unknown] =>
+      typeof item === "object" && item !== null ? [item.weight, item.url] : [undefined, undefined]
+    );
+  } else {
+    return { error: "Variants must be a list of URLs with weights" };
+  }
+  if (entries.length > MAX_VARIANTS) {
+    return { error: `A link can have at most ${MAX_VARIANTS} variants` };
+  }
+  const variants: LinkVariantInput[] = [];
+  for (const [rawWeight, url] of entries) {
+    const urlError = validateUrl(url);
+    if (urlError) {
+      return { error: `Variant: ${urlError}` };
+    }
+    const weight =
+      typeof rawWeight === "string" && /^\d+$/.test(rawWeight) ? Number(rawWeight) : rawWeight;
+    if (
+      typeof weight !== "number" ||
+      !Number.isInteger(weight) ||
+      weight < 0 ||
+      weight > VARIANT_WEIGHT_MAX
+    ) {
+      return { error: `Variant weights must be whole numbers from 0 to ${VARIANT_WEIGHT_MAX}` };
+    }
+    const trimmed = String(url).trim();
+    if (variants.some((variant) => variant.url === trimmed)) {
+      return { error: `Duplicate variant ${trimmed}` };
+    }
+    variants.push({ url: trimmed, weight });
+  }
+  return { value: variants };
+}
+
+// Split a redirect marker setting ("name=value" or "off") into the parameters it adds, or null when invalid
+function splitRedirectMarker(setting: string): QueryParams | null {
+  if (setting === REDIRECT_MARKER_OFF) {
+    return [];
+  }
+  const index = setting.indexOf("=");
+  const name = setting.slice(0, index);
+  const value = setting.slice(index + 1);
+  if (
+    index === -1 ||
+    !REDIRECT_MARKER_NAME_PATTERN.test(name) ||
+    value.length > REDIRECT_MARKER_VALUE_MAX_LENGTH
+  ) {
+    return null;
+  }
+  return [[name, value]];
+}
+
+function validateRedirectMarker(marker: unknown): string | null {
+  if (typeof marker !== "string" || splitRedirectMarker(marker.trim()) === null) {
+    return `Redirect marker must be "name=value" (e.g. "${DEFAULT_REDIRECT_MARKER}") or "${REDIRECT_MARKER_OFF}"`;
+  }
+  return null;
+}
+
+// The marker of this instance, from REDIRECT_MARKER; invalid settings fall back to the default
+function getInstanceRedirectMarker(): QueryParams {
+  const setting = process.env.REDIRECT_MARKER?.trim();
+  const marker = setting ? splitRedirectMarker(setting) : null;
+  if (setting && !marker) {
+    console.log("⚠️ Ignoring invalid REDIRECT_MARKER:", setting);
+  }
+  return marker ?? splitRedirectMarker(DEFAULT_REDIRECT_MARKER)!;
+}
+
+// Parse a click limit; oneTime is a shorthand for a limit of one
+function parseMaxClicks(
+  maxClicks: unknown,
+  oneTime: unknown
+): { error: string } | { value: number | null } {
+  if (oneTime !== undefined && typeof oneTime !== "boolean") {
+    return { error: "oneTime must be a boolean" };
+  }
+  if (oneTime) {
+    return { value: 1 };
+  }
+  if (isBlank(maxClicks)) {
+    return { value: null };
+  }
+  if (typeof maxClicks !== "number" || !Number.isInteger(maxClicks) || maxClicks < 1) {
+    return { error: "maxClicks must be a positive integer" };
+  }
+  return { value: maxClicks };
+}
+
+// Validate a link from a request body, returning either an error message or the parsed input
+export function parseLinkInput(
+  body: Record<string, unknown>
+): { error: string } | { input: LinkInput } {
+  const {
+    url,
+    alias,
+    title,
+    description,
+    dedupe,
+    expiresAt,
+    maxClicks,
+    oneTime,
+    password,
+    activeFrom,
+    activeUntil,
+    comingSoonMessage,
+    tags,
+    collectionId,
+    redirectMarker,
+    forwardQuery,
+    geoTargets,
+    languageTargets,
+    routingRules,
+    variants,
+    stickyVariants,
+    strategy,
+    length,
+  } = body;
+
+  const urlError = validateUrl(url);
+  if (urlError) {
+    return { error: urlError };
+  }
+
+  const input: LinkInput = { url: String(url) };
+
+  // UTM parameters end up in the destination, and are kept apart for reporting
+  const utm = parseUtmParams(body);
+  if ("error" in utm) {
+    return utm;
+  }
+  if (Object.keys(utm.value).length > 0) {
+    input.utm = utm.value;
+    input.url = mergeQueryParams(input.url.trim(), toUtmQuery(utm.value));
+  }
+
+  if (!isBlank(alias)) {
+    if (typeof alias !== "string") {
+      return { error: "Alias must be a string" };
+    }
+    const aliasError = validateAlias(alias);
+    if (aliasError) {
+      return { error: aliasError };
+    }
+    input.alias = alias;
+  } else {
+    const optionsError = validateCodeOptions(strategy, length);
+    if (optionsError) {
+      return { error: optionsError };
+    }
+    input.strategy = strategy as CodeStrategy | undefined;
+    input.length = length as number | undefined;
+  }
+
+  if (!isBlank(title)) {
+    const titleError = validateTitle(title);
+    if (titleError) {
+      return { error: titleError };
+    }
+    input.title = (title as string).trim();
+  }
+
+  if (!isBlank(description)) {
+    const descriptionError = validateDescription(description);
+    if (descriptionError) {
+      return { error: descriptionError };
+    }
+    input.description = (description as string).trim();
+  }
+
+  if (dedupe !== undefined) {
+    if (typeof dedupe !== "boolean") {
+      return { error: "Dedupe must be a boolean" };
+    }
+    input.dedupe = dedupe;
+  }
+
+  if (!isBlank(expiresAt)) {
+    const parsed = parseFutureTimestamp(expiresAt, "Expiry");
+    if ("error" in parsed) {
+      return parsed;
+    }
+    input.expiresAt = parsed.value;
+  }
+
+  const clickLimit = parseMaxClicks(maxClicks, oneTime);
+  if ("error" in clickLimit) {
+    return clickLimit;
+  }
+  if (clickLimit.value !== null) {
+    input.maxClicks = clickLimit.value;
+  }
+
+  if (!isBlank(password)) {
+    const passwordError = validatePassword(password);
+    if (passwordError) {
+      return { error: passwordError };
+    }
+    input.password = password as string;
+  }
+
+  const schedule = parseSchedule(activeFrom, activeUntil, comingSoonMessage);
+  if ("error" in schedule) {
+    return schedule;
+  }
+  input.activeFrom = schedule.value.activeFrom ?? undefined;
+  input.activeUntil = schedule.value.activeUntil ?? undefined;
+  input.comingSoonMessage = schedule.value.comingSoonMessage ?? undefined;
+
+  const parsedTags = parseTags(tags);
+  if ("error" in parsedTags) {
+    return parsedTags;
+  }
+  if (parsedTags.value.length > 0) {
+    input.tags = parsedTags.value;
+  }
+
+  if (!isBlank(collectionId)) {
+    const parsed = parseCollectionId(collectionId);
+    if ("error" in parsed) {
+      return parsed;
+    }
+    input.collectionId = parsed.value;
+  }
+
+  if (!isBlank(redirectMarker)) {
+    const markerError = validateRedirectMarker(redirectMarker);
+    if (markerError) {
+      return { error: markerError };
+    }
+    input.redirectMarker = (redirectMarker as string).trim();
+  }
+
+  if (forwardQuery !== undefined) {
+    if (typeof forwardQuery !== "boolean") {
+      return { error: "forwardQuery must be a boolean" };
+    }
+    input.forwardQuery = forwardQuery;
+  }
+
+  for (const field of DEVICE_URL_FIELDS) {
+    const value = body[field];
+    if (!isBlank(value)) {
+      const urlError = validateUrl(value);
+      if (urlError) {
+        return { error: `${field}: ${urlError}` };
+      }
+      input[field] = String(value).trim();
+    }
+  }
+
+  const parsedGeoTargets = parseGeoTargets(geoTargets);
+  if ("error" in parsedGeoTargets) {
+    return parsedGeoTargets;
+  }
+  if (Object.keys(parsedGeoTargets.value).length > 0) {
+    input.geoTargets = parsedGeoTargets.value;
+  }
+
+  const parsedLanguageTargets = parseLanguageTargets(languageTargets);
+  if ("error" in parsedLanguageTargets) {
+    return parsedLanguageTargets;
+  }
+  if (Object.keys(parsedLanguageTargets.value).length > 0) {
+    input.languageTargets = parsedLanguageTargets.value;
+  }
+
+  const parsedRoutingRules = parseRoutingRules(routingRules);
+  if ("error" in parsedRoutingRules) {
+    return parsedRoutingRules;
+  }
+  if (parsedRoutingRules.value.length > 0) {
+    input.routingRules = parsedRoutingRules.value;
+  }
+
+  const parsedVariants = parseVariants(variants);
+  if ("error" in parsedVariants) {
+    return parsedVariants;
+  }
+  if (parsedVariants.value.length > 0) {
+    input.variants = parsedVariants.value;
+  }
+
+  if (stickyVariants !== undefined) {
+    if (typeof stickyVariants !== "boolean") {
+      return { error: "stickyVariants must be a boolean" };
+    }
+    input.stickyVariants = stickyVariants;
+  }
+
+  return { input };
+}
+
+// Turn validated input into the settings stored with a new link
+export async function toShortenedUrlOptions(
+  input: LinkInput
+): Promise<ShortenedUrlOptions> {
+  return {
+    title: input.title,
+    description: input.description,
+    dedupe: input.dedupe,
+    expiresAt: input.expiresAt,
+    maxClicks: input.maxClicks,
+    passwordHash: input.password ? await hashPassword(input.password) : undefined,
+    activeFrom: input.activeFrom,
+    activeUntil: input.activeUntil,
+    comingSoonMessage: input.comingSoonMessage,
+    tags: input.tags,
+    collectionId: input.collectionId,
+    utm: input.utm,
+    redirectMarker: input.redirectMarker,
+    forwardQuery: input.forwardQuery,
+    iosUrl: input.iosUrl,
+    androidUrl: input.androidUrl,
+    desktopUrl: input.desktopUrl,
+    geoTargets: input.geoTargets,
+    languageTargets: input.languageTargets,
+    routingRules: input.routingRules,
+    variants: input.variants,
+    stickyVariants: input.stickyVariants,
+  };
+}
+
+// Validate changes to a link from a request body, returning either an error message or the changes
+export async function parseLinkChanges(
+  body: Record<string, unknown>
+): Promise<{ error: string } | { changes: ShortenedUrlChanges }> {
+  const {
+    url,
+    alias,
+    title,
+    description,
+    expiresAt,
+    maxClicks,
+    oneTime,
+    password,
+    activeFrom,
+    activeUntil,
+    comingSoonMessage,
+    tags,
+    collectionId,
+    redirectMarker,
+    forwardQuery,
+    geoTargets,
+    languageTargets,
+    routingRules,
+    variants,
+    stickyVariants,
+  } = body;
+  const changes: ShortenedUrlChanges = {};
+
+  // The destination and alias can be replaced but not removed
+  if (url !== undefined) {
+    const urlError = validateUrl(url);
+    if (urlError) {
+      return { error: urlError };
+    }
+    changes.originalUrl = String(url);
+  }
+
+  if (alias !== undefined) {
+    if (typeof alias !== "string") {
+      return { error: "Alias must be a string" };
+    }
+    const aliasError = validateAlias(alias);
+    if (aliasError) {
+      return { error: aliasError };
+    }
+    changes.shortCode = alias;
+  }
+
+  // null (or "") removes the title
+  if (title !== undefined) {
+    if (isBlank(title)) {
+      changes.title = null;
+    } else {
+      const titleError = validateTitle(title);
+      if (titleError) {
+        return { error: titleError };
+      }
+      changes.title = (title as string).trim();
+    }
+  }
+
+  // null (or "") removes the description
+  if (description !== undefined) {
+    if (isBlank(description)) {
+      changes.description = null;
+    } else {
+      const descriptionError = validateDescription(description);
+      if (descriptionError) {
+        return { error: descriptionError };
+      }
+      changes.description = (description as string).trim();
+    }
+  }
+
+  // null (or "") removes the expiry
+  if (expiresAt !== undefined) {
+    if (isBlank(expiresAt)) {
+      changes.expiresAt = null;
+    } else {
+      const parsed = parseFutureTimestamp(expiresAt, "Expiry");
+      if ("error" in parsed) {
+        return parsed;
+      }
+      changes.expiresAt = parsed.value;
+    }
+  }
+
+  // null (or "") removes the click limit
+  if (maxClicks !== undefined || oneTime !== undefined) {
+    const clickLimit = parseMaxClicks(maxClicks, oneTime);
+    if ("error" in clickLimit) {
+      return clickLimit;
+    }
+    changes.maxClicks = clickLimit.value;
+  }
+
+  // null (or "") removes the password
+  if (password !== undefined) {
+    if (isBlank(password)) {
+      changes.passwordHash = null;
+    } else {
+      const passwordError = validatePassword(password);
+      if (passwordError) {
+        return { error: passwordError };
+      }
+      changes.passwordHash = await hashPassword(password as string);
+    }
+  }
+
+  const schedule = parseSchedule(activeFrom, activeUntil, comingSoonMessage);
+  if ("error" in schedule) {
+    return schedule;
+  }
+  Object.assign(changes, schedule.value);
+
+  // An empty list (or null) removes all tags
+  if (tags !== undefined) {
+    const parsedTags = parseTags(tags);
+    if ("error" in parsedTags) {
+      return parsedTags;
+    }
+    changes.tags = parsedTags.value;
+  }
+
+  // null (or "") takes the link out of its collection
+  if (collectionId !== undefined) {
+    if (isBlank(collectionId)) {
+      changes.collectionId = null;
+    } else {
+      const parsed = parseCollectionId(collectionId);
+      if ("error" in parsed) {
+        return parsed;
+      }
+      changes.collectionId = parsed.value;
+    }
+  }
+
+  // null (or "") goes back to the instance's default marker
+  if (redirectMarker !== undefined) {
+    if (isBlank(redirectMarker)) {
+      changes.redirectMarker = null;
+    } else {
+      const markerError = validateRedirectMarker(redirectMarker);
+      if (markerError) {
+        return { error: markerError };
+      }
+      changes.redirectMarker = (redirectMarker as string).trim();
+    }
+  }
+
+  if (forwardQuery !== undefined) {
+    if (typeof forwardQuery !== "boolean") {
+      return { error: "forwardQuery must be a boolean" };
+    }
+    changes.forwardQuery = forwardQuery;
+  }
+
+  // null (or "") removes the UTM parameter, from the columns and the destination
+  for (const field of UTM_FIELDS) {
+    const value = body[`utm_${field}`];
+    if (value === undefined) {
+      continue;
+    }
+    if (isBlank(value) || (typeof value === "string" && value.trim() === "")) {
+      changes.utm = { ...changes.utm, [field]: null };
+    } else if (typeof value !== "string" || value.trim().length > UTM_VALUE_MAX_LENGTH) {
+      return {
+        error: `utm_${field} must be a string of at most ${UTM_VALUE_MAX_LENGTH} characters`,
+      };
+    } else {
+      changes.utm = { ...changes.utm, [field]: value.trim() };
+    }
+  }
+
+  // null (or "") removes the device's destination
+  for (const field of DEVICE_URL_FIELDS) {
+    const value = body[field];
+    if (value === undefined) {
+      continue;
+    }
+    if (isBlank(value)) {
+      changes[field] = null;
+    } else {
+      const urlError = validateUrl(value);
+      if (urlError) {
+        return { error: `${field}: ${urlError}` };
+      }
+      changes[field] = String(value).trim();
+    }
+  }
+
+  // An empty map (or null) removes all country destinations
+  if (geoTargets !== undefined) {
+    const parsedGeoTargets = parseGeoTargets(geoTargets);
+    if ("error" in parsedGeoTargets) {
+      return parsedGeoTargets;
+    }
+    changes.geoTargets = parsedGeoTargets.value;
+  }
+
+  // An empty map (or null) removes all language destinations
+  if (languageTargets !== undefined) {
+    const parsedLanguageTargets = parseLanguageTargets(languageTargets);
+    if ("error" in parsedLanguageTargets) {
+      return parsedLanguageTargets;
+    }
+    changes.languageTargets = parsedLanguageTargets.value;
+  }
+
+  // An empty list (or null) removes all routing rules
+  if (routingRules !== undefined) {
+    const parsedRoutingRules = parseRoutingRules(routingRules);
+    if ("error" in parsedRoutingRules) {
+      return parsedRoutingRules;
+    }
+    changes.routingRules = parsedRoutingRules.value;
+  }
+
+  // An empty list (or null) removes all variants
+  if (variants !== undefined) {
+    const parsedVariants = parseVariants(variants);
+    if ("error" in parsedVariants) {
+      return parsedVariants;
+    }
+    changes.variants = parsedVariants.value;
+  }
+
+  if (stickyVariants !== undefined) {
+    if (typeof stickyVariants !== "boolean") {
+      return { error: "stickyVariants must be a boolean" };
+    }
+    changes.stickyVariants = stickyVariants;
+  }
+
+  return { changes };
+}
+
+export function isExpired(data: ShortenedUrl, now: Date = new Date()) {
+  return !!data.expires_at && new Date(data.expires_at) <= now;
+}
+
+export type ActivationState = "scheduled" | "active" | "ended";
+
+// Where a link stands relative to its activation window
+export function getActivationState(
+  data: Pick<ShortenedUrl, "active_from" | "active_until">,
+  now: Date = new Date()
+): ActivationState {
+  if (data.active_from && new Date(data.active_from) > now) {
+    return "scheduled";
+  }
+  if (data.active_until && new Date(data.active_until) <= now) {
+    return "ended";
+  }
+  return "active";
+}
+
+// Attribute a visit to a QR code scan when the short URL carries the QR marker
+export function getClickSource(
+  searchParams: Record<string, string | string[] | undefined>
+): ClickSource {
+  return searchParams[SOURCE_PARAM] === QR_SOURCE ? "qr" : "direct";
+}
+
+/**
+ * Build the URL a visit is redirected to: the destination (by default the
+ * link's original_url, see chooseDestination for targeting and rules) with, if the link
+ * forwards them, the visitor's query parameters (the destination's own
+ * parameters win over them) and the redirect marker merged in. The QR source
+ * marker only attributes the visit and is not passed on.
+ */
+export function buildRedirectUrl(
+  data: ShortenedUrl,
+  searchParams: Record<string, string | string[] | undefined>,
+  destination: string = data.original_url
+) {
+  let targetUrl = destination;
+  // Ensure the URL has a protocol
+  if (!targetUrl.startsWith("http://") && !targetUrl.startsWith("https://")) {
+    targetUrl = "https://" + targetUrl;
+  }
+
+  const marker =
+    (data.redirect_marker && splitRedirectMarker(data.redirect_marker)) ||
+    getInstanceRedirectMarker();
+  const params: QueryParams = [];
+  if (data.forward_query) {
+    const existing = new URL(targetUrl).searchParams;
+    for (const [name, value] of Object.entries(searchParams)) {
+      const skipped =
+        existing.has(name) ||
+        marker.some(([markerName]) => markerName === name) ||
+        // Set by the password page (see /api/unlock)
+        name === "unlock";
+      for (const item of Array.isArray(value) ? value : value === undefined ? [] : [value]) {
+        if (!skipped && !(name === SOURCE_PARAM && item === QR_SOURCE)) {
+          params.push([name, item]);
+        }
+      }
+    }
+  }
+  return mergeQueryParams(targetUrl, params.concat(marker));
+}
+
+// The alias when one was chosen, otherwise a generator that produces codes until one is free
+export function toShortCodeSource(input: LinkInput): string | ShortCodeSource {
+  if (input.alias) {
+    return input.alias;
+  }
+  return createCodeGenerator(
+    getCodeGeneratorOptions({ strategy: input.strategy, length: input.length })
+  );
+}
+
+// Shape a stored link for API responses
+export function formatShortenedUrl(data: ShortenedUrl) {
+  return {
+    id: data.id.toString(),
+    originalUrl: data.original_url,
+    shortCode: data.short_code,
+    title: data.title ?? null,
+    description: data.description ?? null,
+    createdAt: data.created_at,
+    expiresAt: data.expires_at ?? null,
+    clicks: data.clicks,
+    qrClicks: data.qr_clicks ?? 0,
+    maxClicks: data.max_clicks ?? null,
+    hasPassword: !!data.password_hash,
+    activeFrom: data.active_from ?? null,
+    activeUntil: data.active_until ?? null,
+    comingSoonMessage: data.coming_soon_message ?? null,
+    tags: data.tags ?? [],
+    collectionId: data.collection_id?.toString() ?? null,
+    pageTitle: data.page_title ?? null,
+    pageDescription: data.page_description ?? null,
+    faviconUrl: data.favicon_url ?? null,
+    imageUrl: data.image_url ?? null,
+    utm: {
+      source: data.utm_source ?? null,
+      medium: data.utm_medium ?? null,
+      campaign: data.utm_campaign ?? null,
+      term: data.utm_term ?? null,
+      content: data.utm_content ?? null,
+    },
+    redirectMarker: data.redirect_marker ?? null,
+    forwardQuery: !!data.forward_query,
+    iosUrl: data.ios_url ?? null,
+    androidUrl: data.android_url ?? null,
+    desktopUrl: data.desktop_url ?? null,
+    geoTargets: data.geo_targets ?? {},
+    languageTargets: data.language_targets ?? {},
+    routingRules: data.routing_rules ?? [],
+    variants: (data.variants ?? []).map((variant) => ({
+      id: variant.id.toString(),
+      url: variant.url,
+      weight: variant.weight,
+      clicks: variant.clicks ?? 0,
+    })),
+    stickyVariants: !!data.sticky_variants,
+  };
+}
+
+export type LinkResponse = ReturnType<typeof formatShortenedUrl>;
+
+// Shape a link in the trash for API responses, including when it will be purged
+export function formatDeletedShortenedUrl(data: ShortenedUrl) {
+  const deletedAt = new Date(data.deleted_at!);
+  return {
+    ...formatShortenedUrl(data),
+    deletedAt: deletedAt.toISOString(),
+    purgeAt: new Date(
+      deletedAt.getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000
+    ).toISOString(),
+  };
+}
+
+export type DeletedLinkResponse = ReturnType<typeof formatDeletedShortenedUrl>;
+
+// Shape a recorded destination change for API responses
+export function formatLinkRevision(revision: LinkRevision) {
+  return {
+    id: revision.id.toString(),
+    oldUrl: revision.old_url,
+    newUrl: revision.new_url,
+    changedBy: revision.changed_by,
+    createdAt: revision.created_at,
+  };
+}
+
+export type LinkRevisionResponse = ReturnType<typeof formatLinkRevision>;
+
+// Shape a collection for API responses
+export function formatCollection(collection: CollectionWithStats) {
+  return {
+    id: collection.id.toString(),
+    name: collection.name,
+    createdAt: collection.created_at,
+    linkCount: Number(collection.link_count),
+    clicks: Number(collection.clicks),
+  };
+}
+
+export type CollectionResponse = ReturnType<typeof formatCollection>;
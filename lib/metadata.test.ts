@@ -0,0 +1,135 @@
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createMetadataFetcher,
+  fetchPublicPage,
+  getMetadataFetcherOptions,
+} from "@/lib/metadata";
+
+// Answer every lookup with a loopback address, as a DNS rebinding server would
+vi.mock("dns", async (importOriginal) => {
+  const dns = await importOriginal<typeof import("dns")>();
+  return {
+    ...dns,
+    lookup: (
+      _hostname: string,
+      _options: unknown,
+      callback: (error: null, addresses: { address: string; family: number }[]) => void
+    ) => callback(null, [{ address: "127.0.0.1", family: 4 }]),
+  };
+});
+
+const PAGE = `<!doctype html><html><head>
+  <title>Stub &amp; Page</title>
+  <meta name="description" content="A page served by the test">
+  <meta property="og:image" content="/preview.png">
+  <link rel="icon" href="/icon.svg">
+</head><body>${"x".repeat(1000)}</body></html>`;
+
+// A local stub server, recording the paths it was asked for
+let server: Server;
+let baseUrl: string;
+let requested: string[] = [];
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    requested.push(request.url!);
+    switch (request.url) {
+      case "/page":
+        response.writeHead(200, { "content-type": "text/html; charset=utf-8" });
+        response.end(PAGE);
+        break;
+      case "/redirect":
+        response.writeHead(302, { location: "/page" });
+        response.end();
+        break;
+      case "/loop":
+        response.writeHead(302, { location: "/loop" });
+        response.end();
+        break;
+      case "/json":
+        response.writeHead(200, { "content-type": "application/json" });
+        response.end("{}");
+        break;
+      case "/slow":
+        setTimeout(() => {
+          response.writeHead(200, { "content-type": "text/html" });
+          response.end(PAGE);
+        }, 500);
+        break;
+      default:
+        response.writeHead(404);
+        response.end();
+    }
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  requested = [];
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+const stubFetcher = (overrides = {}) =>
+  createMetadataFetcher(
+    getMetadataFetcherOptions({ allowPrivateHosts: true, timeoutMs: 200, ...overrides })
+  );
+
+describe("createMetadataFetcher", () => {
+  it("reads the metadata of a page from a stub server", async () => {
+    expect(await stubFetcher()(`${baseUrl}/page`)).toEqual({
+      title: "Stub & Page",
+      description: "A page served by the test",
+      faviconUrl: `${baseUrl}/icon.svg`,
+      imageUrl: `${baseUrl}/preview.png`,
+    });
+  });
+
+  it("follows redirects up to maxRedirects", async () => {
+    expect((await stubFetcher()(`${baseUrl}/redirect`))?.title).toBe("Stub & Page");
+    expect(await stubFetcher({ maxRedirects: 2 })(`${baseUrl}/loop`)).toBeNull();
+    expect(requested).toEqual(["/redirect", "/page", "/loop", "/loop", "/loop"]);
+  });
+
+  it("resolves to null for other content, errors and slow pages", async () => {
+    expect(await stubFetcher()(`${baseUrl}/json`)).toBeNull();
+    expect(await stubFetcher()(`${baseUrl}/missing`)).toBeNull();
+    expect(await stubFetcher()(`${baseUrl}/slow`)).toBeNull();
+  });
+
+  it("only reads the start of the body", async () => {
+    const metadata = await stubFetcher({ maxBytes: 100 })(`${baseUrl}/page`);
+    expect(metadata?.title).toBe("Stub & Page");
+    expect(metadata?.description).toBeNull();
+  });
+
+  it("refuses private hosts unless they are allowed", async () => {
+    const fetcher = createMetadataFetcher(getMetadataFetcherOptions({ timeoutMs: 200 }));
+    expect(await fetcher(`${baseUrl}/page`)).toBeNull();
+    expect(await fetcher(`http://localhost:${new URL(baseUrl).port}/page`)).toBeNull();
+    expect(await fetcher(`http://[::ffff:127.0.0.1]:${new URL(baseUrl).port}/page`)).toBeNull();
+    expect(requested).toEqual([]);
+  });
+
+  it("refuses names that resolve to private addresses when connecting", async () => {
+    const fetcher = createMetadataFetcher(getMetadataFetcherOptions({ timeoutMs: 200 }));
+    expect(await fetcher(`http://rebind.example:${new URL(baseUrl).port}/page`)).toBeNull();
+    expect(requested).toEqual([]);
+  });
+});
+
+describe("fetchPublicPage", () => {
+  it("fails instead of connecting to a private address", async () => {
+    await expect(
+      fetchPublicPage(`http://rebind.example:${new URL(baseUrl).port}/page`, {})
+    ).rejects.toThrow(/private address/);
+    expect(requested).toEqual([]);
+  });
+});
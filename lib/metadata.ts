@@ -0,0 +1,359 @@
+import { lookup, type LookupAddress, type LookupOptions } from "dns";
+import http from "http";
+import https from "https";
+import { isIP, type LookupFunction } from "net";
+import { Readable } from "stream";
+
+// What we keep of a destination page
+export interface PageMetadata {
+  title: string | null;
+  description: string | null;
+  faviconUrl: string | null;
+  imageUrl: string | null;
+}
+
+// Fetches the metadata of a page, resolving to null when it cannot be read
+export type MetadataFetcher = (url: string) => Promise<PageMetadata | null>;
+
+// Fetches a single URL, without following redirects
+export type PageFetch = (url: string, init: RequestInit) => Promise<Response>;
+
+export interface MetadataFetcherOptions {
+  // Upper bound for the whole fetch, including redirects and reading the body
+  timeoutMs: number;
+  // Bytes of the body read at most; metadata lives in <head>, near the start
+  maxBytes: number;
+  maxRedirects: number;
+  // Allow loopback and private network addresses, e.g. for a local stub server
+  allowPrivateHosts: boolean;
+  // Defaults to fetchPublicPage, or to the global fetch when private hosts
+  // are allowed; a fetch passed here has to keep away from private addresses itself
+  fetch?: PageFetch;
+}
+
+const TITLE_MAX_LENGTH = 200;
+const DESCRIPTION_MAX_LENGTH = 500;
+const URL_MAX_LENGTH = 2048;
+
+const USER_AGENT = "Mozilla/5.0 (compatible; SLinkerBot/1.0; +link preview)";
+
+// Addresses a fetch on behalf of users must never reach (SSRF)
+const PRIVATE_IPV4_RANGES: [string, number][] = [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+];
+
+function ipv4ToNumber(address: string) {
+  return address
+    .split(".")
+    .reduce((value, part) => value * 256 + Number(part), 0);
+}
+
+function isPrivateAddress(address: string) {
+  if (isIP(address) === 4) {
+    const value = ipv4ToNumber(address);
+    return PRIVATE_IPV4_RANGES.some(([range, bits]) => {
+      const size = Math.pow(2, 32 - bits);
+      const start = ipv4ToNumber(range);
+      return value >= start && value < start + size;
+    });
+  }
+  const normalized = address.toLowerCase();
+  // IPv4-mapped IPv6 addresses, e.g. ::ffff:127.0.0.1, or ::ffff:7f00:1 as URLs write them
+  const mapped = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) {
+    return isPrivateAddress(mapped[1]);
+  }
+  const mappedHex = normalized.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mappedHex) {
+    const value = parseInt(mappedHex[1], 16) * 65536 + parseInt(mappedHex[2], 16);
+    return isPrivateAddress(
+      [24, 16, 8, 0].map((shift) => Math.floor(value / Math.pow(2, shift)) % 256).join(".")
+    );
+  }
+  return (
+    normalized === "::" ||
+    normalized === "::1" ||
+    normalized.startsWith("fc") ||
+    normalized.startsWith("fd") ||
+    normalized.startsWith("fe80:")
+  );
+}
+
+// Whether a host may be fetched from as far as its name tells; the addresses
+// that names resolve to are checked when connecting (see publicLookup)
+function isPublicHost(hostname: string) {
+  const host = hostname.replace(/^\[|\]$/g, "");
+  if (isIP(host)) {
+    return !isPrivateAddress(host);
+  }
+  return !(host === "localhost" || host.endsWith(".localhost") || host.endsWith(".internal"));
+}
+
+/**
+ * DNS lookup for outgoing connections that fails unless all addresses of the
+ * host are public. The connection goes to the very address checked here, so
+ * a DNS rebinding server cannot hand out a private address in between.
+ */
+const publicLookup = ((
+  hostname: string,
+  options: LookupOptions,
+  callback: (error: Error | null, address: string | LookupAddress[], family?: number) => void
+) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, "");
+    } else if (
+      addresses.length === 0 ||
+      addresses.some(({ address }) => isPrivateAddress(address))
+    ) {
+      callback(new Error(`Not connecting to private address of ${hostname}`), "");
+    } else if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}) as unknown as LookupFunction;
+
+// Statuses whose responses never have a body
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+/**
+ * Fetch a URL over node's http(s), connecting only to public addresses (see
+ * publicLookup), which the global fetch cannot be told to do.
+ */
+export const fetchPublicPage: PageFetch = (url, init) =>
+  new Promise((resolve, reject) => {
+    const target = new URL(url);
+    const request = (target.protocol === "https:" ? https : http).request(
+      target,
+      {
+        headers: init.headers as Record<string, string>,
+        signal: init.signal ?? undefined,
+        lookup: publicLookup,
+      },
+      (response) => {
+        const headers = new Headers();
+        Object.entries(response.headers).forEach(([name, value]) => {
+          (Array.isArray(value) ? value : [value]).forEach(
+            (item) => item !== undefined && headers.append(name, item)
+          );
+        });
+        const status = response.statusCode ?? 500;
+        if (NULL_BODY_STATUSES.includes(status)) {
+          response.destroy();
+        }
+        resolve(
+          new Response(
+            NULL_BODY_STATUSES.includes(status)
+              ? null
+              : (Readable.toWeb(response) as ReadableStream<Uint8Array>),
+            { status, headers }
+          )
+        );
+      }
+    );
+    request.on("error", reject);
+    request.end();
+  });
+
+// Read at most maxBytes of a response body as text, stopping after </head>
+async function readHead(response: Response, maxBytes: number) {
+  if (!response.body) {
+    return "";
+  }
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let html = "";
+  let received = 0;
+  try {
+    while (received < maxBytes) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      const chunk = value.subarray(0, maxBytes - received);
+      received += chunk.length;
+      html += decoder.decode(chunk, { stream: true });
+      if (/<\/head>/i.test(html)) {
+        break;
+      }
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+  return html;
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+function decodeEntities(text: string) {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === "#") {
+      const point =
+        code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function cleanText(text: string | undefined, maxLength: number) {
+  if (!text) {
+    return null;
+  }
+  const cleaned = decodeEntities(text).replace(/\s+/g, " ").trim();
+  return cleaned ? cleaned.slice(0, maxLength) : null;
+}
+
+// Resolve a possibly relative URL against the page, keeping only http(s) URLs
+function resolveUrl(href: string | undefined, baseUrl: string) {
+  if (!href) {
+    return null;
+  }
+  try {
+    const url = new URL(decodeEntities(href.trim()), baseUrl);
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      return null;
+    }
+    const resolved = url.toString();
+    return resolved.length <= URL_MAX_LENGTH ? resolved : null;
+  } catch {
+    return null;
+  }
+}
+
+function parseAttributes(tag: string) {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s=/<>"']+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(tag))) {
+    attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4];
+  }
+  return attributes;
+}
+
+// Extract title, description, favicon and preview image from the HTML of a page
+export function parseHtmlMetadata(html: string, pageUrl: string): PageMetadata {
+  const meta: Record<string, string> = {};
+  for (const tag of html.match(/<meta\s[^>]*>/gi) ?? []) {
+    const attributes = parseAttributes(tag);
+    const key = (attributes.property || attributes.name || "").toLowerCase();
+    if (key && attributes.content !== undefined && !(key in meta)) {
+      meta[key] = attributes.content;
+    }
+  }
+
+  let iconHref: string | undefined;
+  for (const tag of html.match(/<link\s[^>]*>/gi) ?? []) {
+    const attributes = parseAttributes(tag);
+    const rel = (attributes.rel || "").toLowerCase().split(/\s+/);
+    if (rel.includes("icon") && attributes.href) {
+      iconHref = attributes.href;
+      break;
+    }
+  }
+
+  const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  return {
+    title: cleanText(title, TITLE_MAX_LENGTH) ?? cleanText(meta["og:title"], TITLE_MAX_LENGTH),
+    description:
+      cleanText(meta["description"], DESCRIPTION_MAX_LENGTH) ??
+      cleanText(meta["og:description"], DESCRIPTION_MAX_LENGTH),
+    // Browsers fall back to /favicon.ico when a page declares no icon
+    faviconUrl: resolveUrl(iconHref ?? "/favicon.ico", pageUrl),
+    imageUrl: resolveUrl(meta["og:image"] ?? meta["twitter:image"], pageUrl),
+  };
+}
+
+export function getMetadataFetcherOptions(
+  overrides: Partial<MetadataFetcherOptions> = {}
+): MetadataFetcherOptions {
+  return {
+    timeoutMs: Number(process.env.METADATA_FETCH_TIMEOUT_MS) || 3000,
+    maxBytes: Number(process.env.METADATA_FETCH_MAX_BYTES) || 512 * 1024,
+    maxRedirects: 3,
+    allowPrivateHosts: false,
+    ...overrides,
+  };
+}
+
+/**
+ * Create a fetcher that downloads the start of a page and extracts its
+ * metadata. Redirects are followed by hand, so that every hop is checked
+ * against private addresses. Failures of any kind resolve to null.
+ */
+export function createMetadataFetcher(
+  options: MetadataFetcherOptions = getMetadataFetcherOptions()
+): MetadataFetcher {
+  const fetchPage =
+    options.fetch ??
+    (options.allowPrivateHosts ? (url: string, init: RequestInit) => fetch(url, init) : fetchPublicPage);
+
+  return async (url: string) => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), options.timeoutMs);
+    try {
+      let current = new URL(url);
+      for (let redirects = 0; ; redirects++) {
+        if (current.protocol !== "http:" && current.protocol !== "https:") {
+          return null;
+        }
+        if (!options.allowPrivateHosts && !isPublicHost(current.hostname)) {
+          console.log("⚠️ Not fetching metadata from private host:", current.hostname);
+          return null;
+        }
+
+        const response = await fetchPage(current.toString(), {
+          redirect: "manual",
+          signal: controller.signal,
+          headers: { "User-Agent": USER_AGENT, Accept: "text/html,application/xhtml+xml" },
+        });
+
+        const location = response.headers.get("location");
+        if (response.status >= 300 && response.status < 400 && location) {
+          response.body?.cancel().catch(() => {});
+          if (redirects >= options.maxRedirects) {
+            return null;
+          }
+          current = new URL(location, current);
+          continue;
+        }
+
+        const contentType = response.headers.get("content-type") || "";
+        if (!response.ok || !/text\/html|application\/xhtml\+xml/i.test(contentType)) {
+          response.body?.cancel().catch(() => {});
+          return null;
+        }
+        const html = await readHead(response, options.maxBytes);
+        return parseHtmlMetadata(html, current.toString());
+      }
+    } catch (error) {
+      console.log("⚠️ Could not fetch metadata for:", url, error instanceof Error ? error.message : error);
+      return null;
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+}
+
+// Used when creating links unless another fetcher is passed; METADATA_FETCH=off disables it
+export const defaultMetadataFetcher: MetadataFetcher =
+  process.env.METADATA_FETCH === "off"
+    ? async () => null
+    : createMetadataFetcher();
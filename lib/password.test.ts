@@ -0,0 +1,46 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createUnlockToken,
+  hashPassword,
+  UNLOCK_TTL_SECONDS,
+  verifyPassword,
+  verifyUnlockToken,
+} from "@/lib/password";
+
+describe("hashPassword", () => {
+  it("produces salted hashes that verifyPassword accepts", async () => {
+    const hash = await hashPassword("hunter2");
+    expect(hash).toMatch(/^scrypt\$[^$]+\$[^$]+$/);
+    expect(await hashPassword("hunter2")).not.toBe(hash);
+    expect(await verifyPassword("hunter2", hash)).toBe(true);
+    expect(await verifyPassword("hunter3", hash)).toBe(false);
+  });
+
+  it("rejects stored values of another format", async () => {
+    expect(await verifyPassword("hunter2", "plain$abc$def")).toBe(false);
+    expect(await verifyPassword("hunter2", "")).toBe(false);
+  });
+});
+
+describe("unlock tokens", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("only unlock the link and password they were created for", () => {
+    const token = createUnlockToken("abc", "hash-1");
+    expect(verifyUnlockToken("abc", "hash-1", token)).toBe(true);
+    expect(verifyUnlockToken("abd", "hash-1", token)).toBe(false);
+    expect(verifyUnlockToken("abc", "hash-2", token)).toBe(false);
+    expect(verifyUnlockToken("abc", "hash-1", undefined)).toBe(false);
+  });
+
+  it("expire after UNLOCK_TTL_SECONDS", () => {
+    vi.useFakeTimers();
+    const token = createUnlockToken("abc", "hash-1");
+    vi.advanceTimersByTime((UNLOCK_TTL_SECONDS - 1) * 1000);
+    expect(verifyUnlockToken("abc", "hash-1", token)).toBe(true);
+    vi.advanceTimersByTime(2000);
+    expect(verifyUnlockToken("abc", "hash-1", token)).toBe(false);
+  });
+});
@@ -0,0 +1,73 @@
+import {
+  createHmac,
+  randomBytes,
+  scrypt as scryptCallback,
+  timingSafeEqual,
+} from "crypto";
+import { promisify } from "util";
+
+const scrypt = promisify(scryptCallback) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>;
+
+const KEY_LENGTH = 32;
+
+// How long a visitor stays unlocked after entering the correct password
+export const UNLOCK_TTL_SECONDS = 30 * 60;
+
+// Fall back to a per-process secret, which only invalidates unlock cookies on restart
+const unlockSecret =
+  process.env.LINK_COOKIE_SECRET ||
+  process.env.NEXTAUTH_SECRET ||
+  randomBytes(32).toString("hex");
+
+// Hash a link password as "scrypt$<salt>$<hash>"
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16);
+  const hash = await scrypt(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString("base64")}$${hash.toString("base64")}`;
+}
+
+// Verify a password against a hash created by hashPassword
+export async function verifyPassword(password: string, stored: string) {
+  const [algorithm, salt, hash] = stored.split("$");
+  if (algorithm !== "scrypt" || !salt || !hash) {
+    return false;
+  }
+  const expected = Buffer.from(hash, "base64");
+  const actual = await scrypt(password, Buffer.from(salt, "base64"), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+export function unlockCookieName(shortCode: string) {
+  return `slinker_unlock_${shortCode}`;
+}
+
+// The signature covers the password hash, so changing the password revokes unlock cookies
+function signUnlock(shortCode: string, passwordHash: string, expires: number) {
+  return createHmac("sha256", unlockSecret)
+    .update(`${shortCode}.${expires}.${passwordHash}`)
+    .digest("base64url");
+}
+
+// Create the value of the cookie that keeps a visitor unlocked for a while
+export function createUnlockToken(shortCode: string, passwordHash: string) {
+  const expires = Math.floor(Date.now() / 1000) + UNLOCK_TTL_SECONDS;
+  return `${expires}.${signUnlock(shortCode, passwordHash, expires)}`;
+}
+
+export function verifyUnlockToken(
+  shortCode: string,
+  passwordHash: string,
+  token: string | undefined
+) {
+  const [expires, signature] = (token || "").split(".");
+  if (!expires || !signature || Number(expires) * 1000 < Date.now()) {
+    return false;
+  }
+  const expected = Buffer.from(signUnlock(shortCode, passwordHash, Number(expires)));
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,152 @@
+import QRCode from "qrcode";
+
+export type QrFormat = "svg" | "png";
+export type QrErrorCorrectionLevel = "L" | "M" | "Q" | "H";
+
+export interface QrOptions {
+  format: QrFormat;
+  // Width and height of the image in pixels
+  size: number;
+  // Quiet zone around the code, in modules
+  margin: number;
+  errorCorrectionLevel: QrErrorCorrectionLevel;
+  // Colors as #rrggbbaa
+  foreground: string;
+  background: string;
+}
+
+export const QR_MIN_SIZE = 64;
+export const QR_MAX_SIZE = 2048;
+export const QR_MAX_MARGIN = 16;
+
+const DEFAULT_QR_OPTIONS: QrOptions = {
+  format: "svg",
+  size: 512,
+  margin: 2,
+  errorCorrectionLevel: "M",
+  foreground: "#000000ff",
+  background: "#ffffffff",
+};
+
+const ERROR_CORRECTION_LEVELS: QrErrorCorrectionLevel[] = ["L", "M", "Q", "H"];
+
+// Accept rgb, rrggbb or rrggbbaa hex colors, with or without a leading #
+function parseColor(value: string, name: string): { error: string } | { value: string } {
+  const hex = value.trim().replace(/^#/, "").toLowerCase();
+  if (!/^([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/.test(hex)) {
+    return { error: `${name} must be a hex color such as 000000 or #1e40af` };
+  }
+  const full =
+    hex.length === 3
+      ? hex
+          .split("")
+          .map((digit) => digit + digit)
+          .join("")
+      : hex;
+  return { value: `#${full.length === 6 ? full + "ff" : full}` };
+}
+
+function parseInteger(
+  value: string,
+  name: string,
+  min: number,
+  max: number
+): { error: string } | { value: number } {
+  const number = /^\d+$/.test(value) ? Number(value) : NaN;
+  if (isNaN(number) || number < min || number > max) {
+    return { error: `${name} must be an integer between ${min} and ${max}` };
+  }
+  return { value: number };
+}
+
+/**
+ * Parse the query parameters of a QR code request (format, size, margin,
+ * ecc, fg, bg). Omitted parameters fall back to the defaults.
+ */
+export function parseQrOptions(
+  params: URLSearchParams
+): { error: string } | { options: QrOptions } {
+  const options: QrOptions = { ...DEFAULT_QR_OPTIONS };
+
+  const format = params.get("format");
+  if (format !== null) {
+    if (format !== "svg" && format !== "png") {
+      return { error: "format must be svg or png" };
+    }
+    options.format = format;
+  }
+
+  const size = params.get("size");
+  if (size !== null) {
+    const parsed = parseInteger(size, "size", QR_MIN_SIZE, QR_MAX_SIZE);
+    if ("error" in parsed) {
+      return parsed;
+    }
+    options.size = parsed.value;
+  }
+
+  const margin = params.get("margin");
+  if (margin !== null) {
+    const parsed = parseInteger(margin, "margin", 0, QR_MAX_MARGIN);
+    if ("error" in parsed) {
+      return parsed;
+    }
+    options.margin = parsed.value;
+  }
+
+  const ecc = params.get("ecc");
+  if (ecc !== null) {
+    const level = ecc.toUpperCase() as QrErrorCorrectionLevel;
+    if (!ERROR_CORRECTION_LEVELS.includes(level)) {
+      return { error: "ecc must be one of L, M, Q or H" };
+    }
+    options.errorCorrectionLevel = level;
+  }
+
+  const fg = params.get("fg");
+  if (fg !== null) {
+    const parsed = parseColor(fg, "fg");
+    if ("error" in parsed) {
+      return parsed;
+    }
+    options.foreground = parsed.value;
+  }
+
+  const bg = params.get("bg");
+  if (bg !== null) {
+    const parsed = parseColor(bg, "bg");
+    if ("error" in parsed) {
+      return parsed;
+    }
+    options.background = parsed.value;
+  }
+
+  if (options.foreground === options.background) {
+    return { error: "fg and bg must be different colors" };
+  }
+
+  return { options };
+}
+
+// Render text as a QR code image
+export async function renderQrCode(
+  text: string,
+  options: QrOptions
+): Promise<{ body: string | Buffer; contentType: string }> {
+  const renderOptions = {
+    errorCorrectionLevel: options.errorCorrectionLevel,
+    margin: options.margin,
+    width: options.size,
+    color: { dark: options.foreground, light: options.background },
+  };
+  if (options.format === "png") {
+    return {
+      body: await QRCode.toBuffer(text, { ...renderOptions, type: "png" }),
+      contentType: "image/png",
+    };
+  }
+  return {
+    body: await QRCode.toString(text, { ...renderOptions, type: "svg" }),
+    contentType: "image/svg+xml",
+  };
+}
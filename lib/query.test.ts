@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { getQueryParam, mergeQueryParams, removeQueryParams } from "@/lib/query";
+
+describe("mergeQueryParams", () => {
+  it("replaces parameters of the same name and keeps the rest as it was", () => {
+    expect(
+      mergeQueryParams("https://example.com/p?a=%20x&utm_source=old#top", [
+        ["utm_source", "news letter"],
+        ["utm_medium", "email"],
+      ])
+    ).toBe("https://example.com/p?a=%20x&utm_source=news%20letter&utm_medium=email#top");
+  });
+
+  it("matches encoded parameter names", () => {
+    expect(mergeQueryParams("https://example.com/?utm%5Fsource=old", [["utm_source", "new"]])).toBe(
+      "https://example.com/?utm_source=new"
+    );
+  });
+
+  it("leaves the URL alone without parameters", () => {
+    expect(mergeQueryParams("https://example.com/?", [])).toBe("https://example.com/?");
+  });
+});
+
+describe("removeQueryParams", () => {
+  it("removes only the named parameters", () => {
+    expect(removeQueryParams("https://example.com/?a=1&utm_source=x&b=2#f", ["utm_source"])).toBe(
+      "https://example.com/?a=1&b=2#f"
+    );
+  });
+
+  it("drops the query string once it is empty", () => {
+    expect(removeQueryParams("https://example.com/?utm_source=x#f", ["utm_source"])).toBe(
+      "https://example.com/#f"
+    );
+  });
+});
+
+describe("getQueryParam", () => {
+  it("returns the decoded value of the first parameter of that name", () => {
+    expect(getQueryParam("https://example.com/?q=a+b%21&q=c", "q")).toBe("a b!");
+    expect(getQueryParam("https://example.com/?flag", "flag")).toBe("");
+    expect(getQueryParam("https://example.com/#q=1", "q")).toBeNull();
+  });
+});
@@ -0,0 +1,74 @@
+// Query parameters to put on a URL, in order
+export type QueryParams = [string, string][];
+
+function decodeQueryComponent(value: string) {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, " "));
+  } catch {
+    return value;
+  }
+}
+
+// Split a URL into what precedes its query string, the query string and the #fragment
+function splitUrl(url: string) {
+  const hashIndex = url.indexOf("#");
+  const fragment = hashIndex === -1 ? "" : url.slice(hashIndex);
+  const withoutFragment = hashIndex === -1 ? url : url.slice(0, hashIndex);
+  const queryIndex = withoutFragment.indexOf("?");
+  const base = queryIndex === -1 ? withoutFragment : withoutFragment.slice(0, queryIndex);
+  const query = queryIndex === -1 ? "" : withoutFragment.slice(queryIndex + 1);
+  return { base, query, fragment };
+}
+
+// Decoded name of a name=value pair of a query string
+function pairName(pair: string) {
+  return decodeQueryComponent(pair.split("=")[0]);
+}
+
+/**
+ * Merge query parameters into a URL. Parameters already present under the
+ * same names are replaced; everything else, including the encoding of the
+ * existing query string and the #fragment, is kept as it was.
+ */
+export function mergeQueryParams(url: string, params: QueryParams) {
+  if (params.length === 0) {
+    return url;
+  }
+  const { base, query, fragment } = splitUrl(url);
+
+  const names = params.map(([name]) => name);
+  const kept = query
+    .split("&")
+    .filter((pair) => pair !== "" && !names.includes(pairName(pair)));
+  const added = params.map(
+    ([name, value]) => `${encodeURIComponent(name)}=${encodeURIComponent(value)}`
+  );
+  return `${base}?${kept.concat(added).join("&")}${fragment}`;
+}
+
+// Remove the named query parameters from a URL, keeping everything else as it was
+export function removeQueryParams(url: string, names: string[]) {
+  if (names.length === 0) {
+    return url;
+  }
+  const { base, query, fragment } = splitUrl(url);
+  const kept = query
+    .split("&")
+    .filter((pair) => pair !== "" && !names.includes(pairName(pair)));
+  if (kept.length === 0) {
+    return `${base}${fragment}`;
+  }
+  return `${base}?${kept.join("&")}${fragment}`;
+}
+
+// The decoded value of the first query parameter of that name, or null
+export function getQueryParam(url: string, name: string) {
+  const pair = splitUrl(url)
+    .query.split("&")
+    .find((pair) => pair !== "" && pairName(pair) === name);
+  if (pair === undefined) {
+    return null;
+  }
+  const equalsIndex = pair.indexOf("=");
+  return equalsIndex === -1 ? "" : decodeQueryComponent(pair.slice(equalsIndex + 1));
+}
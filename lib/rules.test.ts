@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import type { ShortenedUrl } from "@/lib/db";
+import {
+  chooseDestination,
+  evaluateRules,
+  formatRuleConditions,
+  isValidTimeZone,
+  matchesRule,
+  type RoutingRule,
+  type VisitContext,
+} from "@/lib/rules";
+
+const IPHONE = "Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X)";
+const WINDOWS = "Mozilla/5.0 (Windows NT 10.0; Win64; x64)";
+
+// Saturday, 2024-06-15 12:30 UTC (14:30 in Berlin)
+const SATURDAY_NOON = new Date("2024-06-15T12:30:00Z");
+
+const visit = (overrides: Partial<VisitContext> = {}): VisitContext => ({
+  userAgent: WINDOWS,
+  country: null,
+  acceptLanguage: null,
+  visitorId: null,
+  now: SATURDAY_NOON,
+  ...overrides,
+});
+
+const link = (overrides: Partial<ShortenedUrl> = {}) =>
+  ({
+    short_code: "abc",
+    original_url: "https://example.com",
+    ios_url: null,
+    android_url: null,
+    desktop_url: null,
+    geo_targets: null,
+    language_targets: null,
+    routing_rules: null,
+    sticky_variants: false,
+    variants: [],
+    ...overrides,
+  }) as ShortenedUrl;
+
+describe("matchesRule", () => {
+  it("checks days and time windows in the rule's time zone", () => {
+    const weekend: RoutingRule = { url: "x", days: ["sat", "sun"] };
+    expect(matchesRule(weekend, visit())).toBe(true);
+    expect(matchesRule({ ...weekend, days: ["mon"] }, visit())).toBe(false);
+
+    const afternoon: RoutingRule = { url: "x", from: "14:00", until: "15:00" };
+    expect(matchesRule(afternoon, visit())).toBe(false);
+    expect(matchesRule({ ...afternoon, timeZone: "Europe/Berlin" }, visit())).toBe(true);
+  });
+
+  it("runs windows whose end is before their start past midnight", () => {
+    const night: RoutingRule = { url: "x", from: "22:00", until: "06:00" };
+    expect(matchesRule(night, visit({ now: new Date("2024-06-15T23:00:00Z") }))).toBe(true);
+    expect(matchesRule(night, visit({ now: new Date("2024-06-15T05:59:00Z") }))).toBe(true);
+    expect(matchesRule(night, visit({ now: new Date("2024-06-15T06:00:00Z") }))).toBe(false);
+  });
+
+  it("checks devices, countries and languages", () => {
+    expect(matchesRule({ url: "x", devices: ["ios"] }, visit({ userAgent: IPHONE }))).toBe(true);
+    expect(matchesRule({ url: "x", devices: ["ios"] }, visit())).toBe(false);
+    expect(matchesRule({ url: "x", countries: ["DE"] }, visit({ country: "DE" }))).toBe(true);
+    expect(matchesRule({ url: "x", countries: ["DE"] }, visit())).toBe(false);
+    expect(matchesRule({ url: "x", languages: ["de"] }, visit({ acceptLanguage: "de-AT" }))).toBe(true);
+    expect(matchesRule({ url: "x", languages: ["de"] }, visit({ acceptLanguage: "fr" }))).toBe(false);
+  });
+});
+
+describe("evaluateRules", () => {
+  it("returns the first rule the visit meets", () => {
+    const rules: RoutingRule[] = [
+      { url: "weekday", days: ["mon", "tue", "wed", "thu", "fri"] },
+      { url: "weekend", days: ["sat", "sun"] },
+      { url: "always" },
+    ];
+    expect(evaluateRules(rules, visit())?.url).toBe("weekend");
+    expect(evaluateRules([], visit())).toBeNull();
+  });
+});
+
+describe("chooseDestination", () => {
+  it("prefers routing rules, then device, language and country destinations", () => {
+    const data = link({
+      routing_rules: [{ url: "https://rule.example", countries: ["FR"] }],
+      ios_url: "https://ios.example",
+      language_targets: { de: "https://de.example" },
+      geo_targets: { AT: "https://at.example" },
+    });
+    expect(chooseDestination(data, visit({ country: "FR", userAgent: IPHONE })).url).toBe(
+      "https://rule.example"
+    );
+    expect(chooseDestination(data, visit({ userAgent: IPHONE })).url).toBe("https://ios.example");
+    expect(chooseDestination(data, visit({ acceptLanguage: "de", country: "AT" })).url).toBe(
+      "https://de.example"
+    );
+    expect(chooseDestination(data, visit({ country: "AT" })).url).toBe("https://at.example");
+    expect(chooseDestination(data, visit())).toEqual({ url: "https://example.com", variant: null });
+  });
+
+  it("keeps sticky visitors on their variant", () => {
+    const variants = [
+      { id: "1", link_id: "1", url: "https://a.example", weight: 1, clicks: 0 },
+      { id: "2", link_id: "1", url: "https://b.example", weight: 1, clicks: 0 },
+    ];
+    const data = link({ variants, sticky_variants: true });
+    const first = chooseDestination(data, visit({ visitorId: "visitor-1" }));
+    expect(first.variant).not.toBeNull();
+    for (let i = 0; i < 10; i++) {
+      expect(chooseDestination(data, visit({ visitorId: "visitor-1" })).url).toBe(first.url);
+    }
+  });
+});
+
+describe("isValidTimeZone", () => {
+  it("knows IANA time zone names", () => {
+    expect(isValidTimeZone("Europe/Berlin")).toBe(true);
+    expect(isValidTimeZone("Mars/Olympus")).toBe(false);
+  });
+});
+
+describe("formatRuleConditions", () => {
+  it("writes conditions the way rule lines take them", () => {
+    expect(
+      formatRuleConditions({
+        url: "x",
+        days: ["sat", "sun"],
+        from: "10:00",
+        until: "14:00",
+        timeZone: "Europe/Berlin",
+        devices: ["ios", "android"],
+        countries: ["DE"],
+        languages: ["de"],
+      })
+    ).toBe("sat,sun 10:00-14:00 Europe/Berlin device:ios,android country:DE lang:de");
+  });
+});
@@ -0,0 +1,193 @@
+import type { LinkVariant, ShortenedUrl } from "@/lib/db";
+import {
+  chooseVariant,
+  detectDevice,
+  matchLanguage,
+  type DeviceType,
+} from "@/lib/targeting";
+
+export const WEEKDAYS = ["mon", "tue", "wed", "thu", "fri", "sat", "sun"] as const;
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export const DEFAULT_TIME_ZONE = "UTC";
+
+/**
+ * A routing rule of a link: visits that meet all of its conditions go to its
+ * URL. Conditions left out do not restrict the rule.
+ */
+export interface RoutingRule {
+  url: string;
+  days?: Weekday[];
+  // "HH:MM" in timeZone, from inclusive and until exclusive; a window whose
+  // until is earlier than its from runs past midnight
+  from?: string;
+  until?: string;
+  // IANA time zone of days and the time window, e.g. "Europe/Berlin"
+  timeZone?: string;
+  devices?: DeviceType[];
+  // ISO 3166-1 alpha-2 codes, uppercase
+  countries?: string[];
+  // Language tags, lowercase, negotiated like language destinations
+  languages?: string[];
+}
+
+// Everything known about a visit that targeting may depend on
+export interface VisitContext {
+  userAgent: string | null;
+  // ISO 3166-1 alpha-2 code, see resolveCountry
+  country: string | null;
+  acceptLanguage: string | null;
+  // See VISITOR_COOKIE; null for visitors without cookies
+  visitorId: string | null;
+  now: Date;
+}
+
+// Where a visit goes, and the A/B variant it counts for if any
+export interface Destination {
+  url: string;
+  variant: LinkVariant | null;
+}
+
+// Whether the IANA time zone name is known to the runtime
+export function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// "HH:MM" as minutes since midnight
+function toMinutes(time: string) {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+// Weekday and minutes since midnight of an instant in a time zone
+function getLocalTime(now: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(now);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((item) => item.type === type)?.value ?? "";
+  return {
+    day: part("weekday").toLowerCase() as Weekday,
+    minutes: Number(part("hour")) * 60 + Number(part("minute")),
+  };
+}
+
+// Whether a visit meets all conditions of a rule
+export function matchesRule(rule: RoutingRule, context: VisitContext) {
+  if (rule.days?.length || (rule.from && rule.until)) {
+    const local = getLocalTime(context.now, rule.timeZone || DEFAULT_TIME_ZONE);
+    if (rule.days?.length && !rule.days.includes(local.day)) {
+      return false;
+    }
+    if (rule.from && rule.until) {
+      const from = toMinutes(rule.from);
+      const until = toMinutes(rule.until);
+      const inWindow =
+        from <= until
+          ? local.minutes >= from && local.minutes < until
+          : local.minutes >= from || local.minutes < until;
+      if (!inWindow) {
+        return false;
+      }
+    }
+  }
+  if (rule.devices?.length && !rule.devices.includes(detectDevice(context.userAgent))) {
+    return false;
+  }
+  if (rule.countries?.length && !(context.country && rule.countries.includes(context.country))) {
+    return false;
+  }
+  if (rule.languages?.length) {
+    const targets = Object.fromEntries(rule.languages.map((language) => [language, rule.url]));
+    if (!matchLanguage(context.acceptLanguage, targets)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// The first of the rules that the visit meets, or null
+export function evaluateRules(rules: RoutingRule[], context: VisitContext) {
+  return rules.find((rule) => matchesRule(rule, context)) ?? null;
+}
+
+// Whether routing a visit to the link depends on the visitor's country
+export function needsCountry(data: ShortenedUrl) {
+  return (
+    !!data.geo_targets ||
+    (data.routing_rules ?? []).some((rule) => rule.countries?.length)
+  );
+}
+
+/**
+ * Pick the destination of a visit: the URL of the first routing rule the
+ * visit meets, else the one for the visitor's device if the link has one,
+ * else the one for the visitor's languages, else the one for the visitor's
+ * country, else one of the link's A/B variants (the same one for a returning
+ * visitor when the link is sticky), else original_url.
+ */
+export function chooseDestination(data: ShortenedUrl, context: VisitContext): Destination {
+  const rule = evaluateRules(data.routing_rules ?? [], context);
+  if (rule) {
+    return { url: rule.url, variant: null };
+  }
+
+  const deviceUrls: Record<DeviceType, string | null> = {
+    ios: data.ios_url,
+    android: data.android_url,
+    desktop: data.desktop_url,
+    other: null,
+  };
+  const languageUrl = data.language_targets
+    ? matchLanguage(context.acceptLanguage, data.language_targets)
+    : null;
+  const countryUrl = context.country ? data.geo_targets?.[context.country] : null;
+  const targetedUrl =
+    deviceUrls[detectDevice(context.userAgent)] || languageUrl || countryUrl;
+  if (targetedUrl) {
+    return { url: targetedUrl, variant: null };
+  }
+
+  const seed =
+    data.sticky_variants && context.visitorId
+      ? `${context.visitorId}:${data.short_code}`
+      : null;
+  const variant = chooseVariant(data.variants ?? [], seed);
+  return { url: variant?.url ?? data.original_url, variant };
+}
+
+/**
+ * Write a rule's conditions the way the rule lines of the link forms take
+ * them (see parseRoutingRules), e.g. "sat,sun 10:00-14:00 Europe/Berlin".
+ */
+export function formatRuleConditions(rule: RoutingRule) {
+  const tokens: string[] = [];
+  if (rule.days?.length) {
+    tokens.push(rule.days.join(","));
+  }
+  if (rule.from && rule.until) {
+    tokens.push(`${rule.from}-${rule.until}`);
+  }
+  if (rule.timeZone) {
+    tokens.push(rule.timeZone);
+  }
+  if (rule.devices?.length) {
+    tokens.push(`device:${rule.devices.join(",")}`);
+  }
+  if (rule.countries?.length) {
+    tokens.push(`country:${rule.countries.join(",")}`);
+  }
+  if (rule.languages?.length) {
+    tokens.push(`lang:${rule.languages.join(",")}`);
+  }
+  return tokens.join(" ");
+}
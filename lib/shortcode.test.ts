@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createShortenedUrl, ShortCodeConflictError } from "@/lib/db";
+import {
+  CODE_MAX_LENGTH,
+  createCodeGenerator,
+  getCodeGeneratorOptions,
+  type CodeGeneratorOptions,
+} from "@/lib/shortcode";
+
+const noMetadata = async () => null;
+
+const options = (overrides: Partial<CodeGeneratorOptions> = {}): CodeGeneratorOptions => ({
+  ...getCodeGeneratorOptions(),
+  strategy: "random",
+  length: 6,
+  escalateAfter: 3,
+  ...overrides,
+});
+
+describe("createCodeGenerator", () => {
+  it("grows the code by one character every escalateAfter collisions", async () => {
+    const generate = createCodeGenerator(options());
+    const lengths = [];
+    for (let attempt = 0; attempt < 9; attempt++) {
+      lengths.push((await generate(attempt)).length);
+    }
+    expect(lengths).toEqual([6, 6, 6, 7, 7, 7, 8, 8, 8]);
+  });
+
+  it("never grows the code past the column width", async () => {
+    const generate = createCodeGenerator(options({ length: CODE_MAX_LENGTH - 1 }));
+    expect((await generate(100)).length).toBe(CODE_MAX_LENGTH);
+  });
+
+  it("appends digits to word codes once they escalate", async () => {
+    const generate = createCodeGenerator(options({ strategy: "words" }));
+    expect(await generate(0)).toMatch(/^[a-z]+-[a-z]+$/);
+    expect(await generate(3)).toMatch(/^[a-z]+-[a-z]+-\d{2}$/);
+  });
+
+  it("only uses the unambiguous alphabet", async () => {
+    const generate = createCodeGenerator(options({ strategy: "unambiguous", length: 20 }));
+    expect(await generate(0)).toMatch(/^[2-9a-km-zA-HJ-NP-Z]+$/);
+  });
+
+  it("encodes the sequence without repeating codes", async () => {
+    const sequence = createCodeGenerator(options({ strategy: "sequence" }));
+    const hashids = createCodeGenerator(options({ strategy: "hashids" }));
+    const codes = [];
+    for (let i = 0; i < 20; i++) {
+      codes.push(await sequence(0), await hashids(0));
+    }
+    expect(new Set(codes).size).toBe(codes.length);
+  });
+});
+
+describe("short code allocation", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("asks the code source again after a collision", async () => {
+    await createShortenedUrl("https://example.com/taken", "taken1", "a@example.com", {}, noMetadata);
+    const source = vi.fn(async (attempt: number) => (attempt === 0 ? "taken1" : "free1"));
+
+    const url = await createShortenedUrl("https://example.com", source, "a@example.com", {}, noMetadata);
+
+    expect(url.short_code).toBe("free1");
+    expect(source.mock.calls.map(([attempt]) => attempt)).toEqual([0, 1]);
+  });
+
+  it("gives up after a bounded number of attempts", async () => {
+    await createShortenedUrl("https://example.com/full", "full1", "a@example.com", {}, noMetadata);
+    const source = vi.fn(async () => "full1");
+
+    await expect(
+      createShortenedUrl("https://example.com", source, "a@example.com", {}, noMetadata)
+    ).rejects.toBeInstanceOf(ShortCodeConflictError);
+    expect(source).toHaveBeenCalledTimes(50);
+  });
+
+  it("tries a fixed short code only once", async () => {
+    await createShortenedUrl("https://example.com/alias", "my-alias", "a@example.com", {}, noMetadata);
+
+    await expect(
+      createShortenedUrl("https://example.com", "my-alias", "b@example.com", {}, noMetadata)
+    ).rejects.toMatchObject({ shortCode: "my-alias" });
+  });
+});
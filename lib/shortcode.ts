@@ -0,0 +1,294 @@
+import { customAlphabet, urlAlphabet } from "nanoid";
+import { nextCodeSequence, shortCodeExists } from "@/lib/db";
+
+// Aliases share the short_code column, so they must fit into VARCHAR(20)
+export const ALIAS_MIN_LENGTH = 3;
+export const ALIAS_MAX_LENGTH = 20;
+
+// Letters, digits, "-" and "_", starting and ending with a letter or digit
+const ALIAS_PATTERN = /^[A-Za-z0-9](?:[A-Za-z0-9_-]*[A-Za-z0-9])?$/;
+
+// Top-level paths that are served by the app itself and must never be shadowed
+const RESERVED_ALIASES = ["api", "_next", "static", "public", "admin"];
+
+const randomSuffix = customAlphabet("abcdefghijkmnpqrstuvwxyz23456789", 3);
+
+export function isReservedCode(code: string) {
+  return RESERVED_ALIASES.includes(code.toLowerCase());
+}
+
+// Validate a human-chosen alias, returning an error message or null when valid
+export function validateAlias(alias: string): string | null {
+  if (alias.length < ALIAS_MIN_LENGTH || alias.length > ALIAS_MAX_LENGTH) {
+    return `Alias must be between ${ALIAS_MIN_LENGTH} and ${ALIAS_MAX_LENGTH} characters`;
+  }
+  if (!ALIAS_PATTERN.test(alias)) {
+    return 'Alias may only contain letters, digits, "-" and "_", and must start and end with a letter or digit';
+  }
+  if (isReservedCode(alias)) {
+    return `Alias "${alias}" is reserved`;
+  }
+  return null;
+}
+
+// Suggest free alternatives for an alias that is already taken
+export async function suggestAliases(alias: string, count: number = 3) {
+  const candidates: string[] = [];
+  const withSuffix = (suffix: string) =>
+    alias.slice(0, ALIAS_MAX_LENGTH - suffix.length) + suffix;
+
+  for (let n = 2; n <= 4; n++) {
+    candidates.push(withSuffix(`-${n}`));
+  }
+  candidates.push(withSuffix(`-${new Date().getFullYear()}`));
+  for (let i = 0; i < count; i++) {
+    candidates.push(withSuffix(`-${randomSuffix()}`));
+  }
+
+  const suggestions: string[] = [];
+  for (const candidate of Array.from(new Set(candidates))) {
+    if (suggestions.length >= count) break;
+    if (validateAlias(candidate) === null && !(await shortCodeExists(candidate))) {
+      suggestions.push(candidate);
+    }
+  }
+  return suggestions;
+}
+
+// ---------------------------------------------------------------------------
+// Short code generation strategies
+// ---------------------------------------------------------------------------
+
+export const CODE_STRATEGIES = [
+  "random", // random characters from the configured alphabet
+  "unambiguous", // random characters without look-alikes such as 0/O and 1/l
+  "sequence", // base62 of an increasing sequence
+  "hashids", // obfuscated sequence, Hashids style
+  "words", // pronounceable word combos such as "brave-otter"
+] as const;
+
+export type CodeStrategy = (typeof CODE_STRATEGIES)[number];
+
+export interface CodeGeneratorOptions {
+  strategy: CodeStrategy;
+  // Base length of generated codes (ignored by "sequence" and "words")
+  length: number;
+  // Alphabet used by "random" and "hashids"
+  alphabet: string;
+  // Salt used by "hashids" to shuffle its alphabet
+  salt: string;
+  // Number of collisions after which the code length is increased by one
+  escalateAfter: number;
+}
+
+export const CODE_MIN_LENGTH = 4;
+export const CODE_MAX_LENGTH = ALIAS_MAX_LENGTH;
+
+const BASE62_ALPHABET =
+  "0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ";
+const UNAMBIGUOUS_ALPHABET =
+  "23456789abcdefghijkmnpqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ";
+
+const DEFAULT_CODE_OPTIONS: CodeGeneratorOptions = {
+  strategy: "random",
+  length: 8,
+  alphabet: urlAlphabet,
+  salt: "slinker",
+  escalateAfter: 3,
+};
+
+const ADJECTIVES = [
+  "amber", "bold", "brave", "bright", "calm", "clever", "cosy", "crisp",
+  "daring", "eager", "fancy", "fast", "gentle", "glad", "golden", "grand",
+  "happy", "jolly", "keen", "kind", "lively", "lucky", "mellow", "merry",
+  "mighty", "noble", "proud", "quick", "quiet", "rapid", "royal", "rusty",
+  "shiny", "silent", "silver", "smart", "snowy", "solid", "sunny", "swift",
+  "tidy", "vivid", "warm", "wild", "wise", "witty", "young", "zesty",
+];
+
+const NOUNS = [
+  "badger", "bear", "beaver", "bison", "cactus", "canyon", "cedar", "comet",
+  "coral", "crane", "delta", "eagle", "falcon", "fern", "fjord", "forest",
+  "fox", "galaxy", "garden", "harbor", "hawk", "island", "koala", "lagoon",
+  "lemon", "lion", "maple", "meadow", "moon", "otter", "owl", "panda",
+  "pebble", "pine", "planet", "prairie", "raven", "river", "robin", "rocket",
+  "sparrow", "summit", "tiger", "tulip", "valley", "walrus", "willow", "zebra",
+];
+
+// Validate an alphabet for "random" and "hashids", returning an error message or null when valid
+function validateAlphabet(alphabet: string): string | null {
+  if (!/^[A-Za-z0-9_-]+$/.test(alphabet)) {
+    return 'Alphabet may only contain letters, digits, "-" and "_"';
+  }
+  if (new Set(alphabet).size !== alphabet.length) {
+    return "Alphabet must not contain duplicate characters";
+  }
+  if (alphabet.length < 16) {
+    return "Alphabet must contain at least 16 characters";
+  }
+  return null;
+}
+
+// Validate per-request generator overrides, returning an error message or null when valid
+export function validateCodeOptions(strategy: unknown, length: unknown): string | null {
+  if (strategy !== undefined && !CODE_STRATEGIES.includes(strategy as CodeStrategy)) {
+    return `Strategy must be one of: ${CODE_STRATEGIES.join(", ")}`;
+  }
+  if (
+    length !== undefined &&
+    (typeof length !== "number" ||
+      !Number.isInteger(length) ||
+      length < CODE_MIN_LENGTH ||
+      length > CODE_MAX_LENGTH)
+  ) {
+    return `Length must be an integer between ${CODE_MIN_LENGTH} and ${CODE_MAX_LENGTH}`;
+  }
+  return null;
+}
+
+// Read the instance-wide generator configuration from the environment
+function getEnvCodeOptions(): CodeGeneratorOptions {
+  const options = { ...DEFAULT_CODE_OPTIONS };
+
+  const strategy = process.env.SHORT_CODE_STRATEGY;
+  if (strategy) {
+    if (validateCodeOptions(strategy, undefined) === null) {
+      options.strategy = strategy as CodeStrategy;
+    } else {
+      console.warn("⚠️ Ignoring invalid SHORT_CODE_STRATEGY:", strategy);
+    }
+  }
+
+  const length = process.env.SHORT_CODE_LENGTH;
+  if (length) {
+    if (validateCodeOptions(undefined, Number(length)) === null) {
+      options.length = Number(length);
+    } else {
+      console.warn("⚠️ Ignoring invalid SHORT_CODE_LENGTH:", length);
+    }
+  }
+
+  const alphabet = process.env.SHORT_CODE_ALPHABET;
+  if (alphabet) {
+    if (validateAlphabet(alphabet) === null) {
+      options.alphabet = alphabet;
+    } else {
+      console.warn("⚠️ Ignoring invalid SHORT_CODE_ALPHABET:", validateAlphabet(alphabet));
+    }
+  }
+
+  if (process.env.SHORT_CODE_SALT) {
+    options.salt = process.env.SHORT_CODE_SALT;
+  }
+
+  const escalateAfter = Number(process.env.SHORT_CODE_ESCALATE_AFTER);
+  if (Number.isInteger(escalateAfter) && escalateAfter > 0) {
+    options.escalateAfter = escalateAfter;
+  }
+
+  return options;
+}
+
+// Resolve generator options: per-request overrides on top of the environment defaults
+export function getCodeGeneratorOptions(
+  overrides: { strategy?: CodeStrategy; length?: number } = {}
+): CodeGeneratorOptions {
+  const options = getEnvCodeOptions();
+  if (overrides.strategy) {
+    options.strategy = overrides.strategy;
+  }
+  if (overrides.length) {
+    options.length = overrides.length;
+  }
+  return options;
+}
+
+function encode(value: number, alphabet: string) {
+  let encoded = "";
+  do {
+    encoded = alphabet[value % alphabet.length] + encoded;
+    value = Math.floor(value / alphabet.length);
+  } while (value > 0);
+  return encoded;
+}
+
+// Deterministically shuffle an alphabet with a salt (the Hashids "consistent shuffle")
+function consistentShuffle(alphabet: string, salt: string) {
+  const chars = alphabet.split("");
+  for (let i = chars.length - 1, v = 0, p = 0; i > 0; i--, v++) {
+    v %= salt.length;
+    const integer = salt.charCodeAt(v);
+    p += integer;
+    const j = (integer + v + p) % i;
+    [chars[i], chars[j]] = [chars[j], chars[i]];
+  }
+  return chars.join("");
+}
+
+// Obfuscate a counter: a lottery character selects a salted alphabet per position,
+// so consecutive values do not look consecutive while staying collision free
+function hashidsEncode(value: number, alphabet: string, salt: string, length: number) {
+  const base = consistentShuffle(alphabet, salt);
+  const lottery = base[value % base.length];
+  const width = Math.max(length - 1, 1);
+
+  let digits = "";
+  let rest = value;
+  for (let position = 0; position < width || rest > 0; position++) {
+    const keyed = consistentShuffle(base, `${lottery}${salt}${position}`);
+    digits = keyed[rest % keyed.length] + digits;
+    rest = Math.floor(rest / keyed.length);
+  }
+  return lottery + digits;
+}
+
+function randomWord(words: string[]) {
+  return words[Math.floor(Math.random() * words.length)];
+}
+
+function wordsCode(level: number) {
+  const words = `${randomWord(ADJECTIVES)}-${randomWord(NOUNS)}`;
+  if (level === 0) {
+    return words;
+  }
+  // Escalate by appending digits, as many as still fit into the column
+  const digits = Math.min(level + 1, CODE_MAX_LENGTH - words.length - 1);
+  return `${words}-${customAlphabet("0123456789", digits)()}`;
+}
+
+/**
+ * Create a short code generator for the given options.
+ *
+ * The returned function is called with the number of the current attempt;
+ * every `escalateAfter` collisions the code length grows by one, so a crowded
+ * key space makes codes longer instead of failing the request.
+ */
+export function createCodeGenerator(options: CodeGeneratorOptions) {
+  return async (attempt: number): Promise<string> => {
+    const level = Math.floor(attempt / options.escalateAfter);
+    const length = Math.min(options.length + level, CODE_MAX_LENGTH);
+
+    let code: string;
+    switch (options.strategy) {
+      case "unambiguous":
+        code = customAlphabet(UNAMBIGUOUS_ALPHABET, length)();
+        break;
+      case "sequence":
+        code = encode(await nextCodeSequence(), BASE62_ALPHABET);
+        break;
+      case "hashids":
+        code = hashidsEncode(await nextCodeSequence(), options.alphabet, options.salt, length);
+        break;
+      case "words":
+        code = wordsCode(level);
+        break;
+      case "random":
+      default:
+        code = customAlphabet(options.alphabet, length)();
+        break;
+    }
+
+    // Never hand out a code that would shadow one of the app's own routes
+    return isReservedCode(code) ? createCodeGenerator(options)(attempt + 1) : code;
+  };
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import type { LinkVariant } from "@/lib/db";
+import {
+  chooseVariant,
+  detectDevice,
+  matchLanguage,
+  parseAcceptLanguage,
+} from "@/lib/targeting";
+
+const variant = (id: string, weight: number): LinkVariant => ({
+  id,
+  link_id: "1",
+  url: `https://example.com/${id}`,
+  weight,
+  clicks: 0,
+});
+
+describe("detectDevice", () => {
+  it("tells platforms apart by their User-Agent", () => {
+    expect(detectDevice("Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X)")).toBe("ios");
+    expect(detectDevice("Mozilla/5.0 (Linux; Android 14; Pixel 8) Mobile")).toBe("android");
+    expect(detectDevice("Mozilla/5.0 (Windows NT 10.0; Win64; x64)")).toBe("desktop");
+    expect(detectDevice("Mozilla/5.0 (Mobile; KaiOS 3.0)")).toBe("other");
+    expect(detectDevice(null)).toBe("other");
+  });
+});
+
+describe("parseAcceptLanguage", () => {
+  it("orders ranges by q-value, then by position", () => {
+    expect(parseAcceptLanguage("fr;q=0.5, de-AT, en;q=0.8, de")).toEqual([
+      { range: "de-at", quality: 1 },
+      { range: "de", quality: 1 },
+      { range: "en", quality: 0.8 },
+      { range: "fr", quality: 0.5 },
+    ]);
+  });
+
+  it("leaves out q=0 and malformed entries", () => {
+    expect(parseAcceptLanguage("en;q=0, de;q=1.5, fr;q=abc, !!, it;q=0.001")).toEqual([
+      { range: "it", quality: 0.001 },
+    ]);
+  });
+
+  it("returns nothing for a missing header", () => {
+    expect(parseAcceptLanguage(undefined)).toEqual([]);
+  });
+});
+
+describe("matchLanguage", () => {
+  const targets = { de: "https://example.de", "en-gb": "https://example.co.uk" };
+
+  it("follows the visitor's preferences", () => {
+    expect(matchLanguage("fr;q=0.9, de;q=0.5, en", targets)).toBe("https://example.co.uk");
+    expect(matchLanguage("en;q=0.1, de", targets)).toBe("https://example.de");
+  });
+
+  it("falls back to less specific tags and to tags of the same language", () => {
+    expect(matchLanguage("de-CH", targets)).toBe("https://example.de");
+    expect(matchLanguage("en-US", targets)).toBe("https://example.co.uk");
+  });
+
+  it("does not let * or excluded languages match", () => {
+    expect(matchLanguage("*", targets)).toBeNull();
+    expect(matchLanguage("de;q=0, fr", targets)).toBeNull();
+  });
+});
+
+describe("chooseVariant", () => {
+  const variants = [variant("a", 1), variant("b", 3), variant("c", 0)];
+
+  it("gives a seeded visitor the same variant every time", () => {
+    const first = chooseVariant(variants, "visitor-1:abc");
+    for (let i = 0; i < 10; i++) {
+      expect(chooseVariant(variants, "visitor-1:abc")).toBe(first);
+    }
+  });
+
+  it("spreads seeds according to the weights", () => {
+    const counts: Record<string, number> = { a: 0, b: 0, c: 0 };
+    for (let i = 0; i < 4000; i++) {
+      counts[chooseVariant(variants, `visitor-${i}`)!.id]++;
+    }
+    expect(counts.c).toBe(0);
+    expect(counts.b / counts.a).toBeGreaterThan(2.5);
+    expect(counts.b / counts.a).toBeLessThan(3.5);
+  });
+
+  it("returns null without weighted variants", () => {
+    expect(chooseVariant([], "seed")).toBeNull();
+    expect(chooseVariant([variant("a", 0)], "seed")).toBeNull();
+  });
+});
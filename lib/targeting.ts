@@ -0,0 +1,129 @@
+import type { LinkVariant } from "@/lib/db";
+
+// Cookie holding a random visitor id, set by the middleware, that sticky A/B tests are keyed on
+export const VISITOR_COOKIE = "slinker_visitor";
+
+export type DeviceType = "ios" | "android" | "desktop" | "other";
+
+// Tell the visitor's platform from a User-Agent header; unknown mobile platforms are "other"
+export function detectDevice(userAgent: string | null | undefined): DeviceType {
+  if (!userAgent) {
+    return "other";
+  }
+  if (/\b(iPhone|iPad|iPod)\b/i.test(userAgent)) {
+    return "ios";
+  }
+  if (/\bAndroid\b/i.test(userAgent)) {
+    return "android";
+  }
+  if (/Mobile|Opera Mini|IEMobile|BlackBerry|webOS|KaiOS/i.test(userAgent)) {
+    return "other";
+  }
+  if (/Windows NT|Macintosh|X11|Linux|CrOS/i.test(userAgent)) {
+    return "desktop";
+  }
+  return "other";
+}
+
+// A language range of an Accept-Language header, e.g. "de-at" or "*"
+export interface LanguagePreference {
+  range: string;
+  quality: number;
+}
+
+/**
+ * Parse an Accept-Language header into its language ranges, most preferred
+ * first (by q-value, then by position). Ranges with q=0 or malformed entries
+ * are left out.
+ */
+export function parseAcceptLanguage(header: string | null | undefined): LanguagePreference[] {
+  if (!header) {
+    return [];
+  }
+  return header
+    .split(",")
+    .map((part, index) => {
+      const [range, ...params] = part.split(";").map((item) => item.trim());
+      let quality = 1;
+      for (const param of params) {
+        if (/^q=/i.test(param)) {
+          // A malformed q-value drops the range
+          const valid = /^q=(0(\.\d{0,3})?|1(\.0{0,3})?)$/i.test(param);
+          quality = valid ? Number(param.slice(2)) : NaN;
+        }
+      }
+      return { range: range.toLowerCase(), quality, index };
+    })
+    .filter(
+      ({ range, quality }) =>
+        quality > 0 && /^(\*|[a-z]{1,8}(-[a-z0-9]{1,8})*)$/.test(range)
+    )
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+    .map(({ range, quality }) => ({ range, quality }));
+}
+
+/**
+ * Negotiate a destination for an Accept-Language header. The visitor's
+ * ranges are tried in order of preference; each matches the destination of
+ * the same tag, else of a less specific tag ("de-at" falls back to "de"),
+ * else of any tag of the same language ("en" accepts "en-gb"). Returns null
+ * when nothing matches, "*" included, so the link's fallback applies.
+ */
+export function matchLanguage(
+  header: string | null | undefined,
+  targets: Record<string, string>
+): string | null {
+  const tags = Object.keys(targets);
+  for (const { range } of parseAcceptLanguage(header)) {
+    if (range === "*") {
+      continue;
+    }
+    const subtags = range.split("-");
+    for (let length = subtags.length; length > 0; length--) {
+      const tag = subtags.slice(0, length).join("-");
+      if (targets[tag]) {
+        return targets[tag];
+      }
+    }
+    const sameLanguage = tags.find((tag) => tag.split("-")[0] === subtags[0]);
+    if (sameLanguage) {
+      return targets[sameLanguage];
+    }
+  }
+  return null;
+}
+
+// 32-bit FNV-1a hash of a string, as a number in [0, 1)
+function hashToUnitInterval(value: string) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
+
+/**
+ * Pick one of the variants, each with a chance proportional to its weight.
+ * With a seed (e.g. a visitor id) the pick is the same on every call, as long
+ * as the variants and their weights stay the same. Returns null when no
+ * variant has a weight above 0.
+ */
+export function chooseVariant(
+  variants: LinkVariant[],
+  seed?: string | null
+): LinkVariant | null {
+  const total = variants.reduce((sum, variant) => sum + variant.weight, 0);
+  if (total <= 0) {
+    return null;
+  }
+  let point = (seed ? hashToUnitInterval(seed) : Math.random()) * total;
+  for (const variant of variants) {
+    if (point < variant.weight) {
+      return variant;
+    }
+    point -= variant.weight;
+  }
+  // Only reached through rounding
+  return variants.filter((variant) => variant.weight > 0).pop()!;
+}
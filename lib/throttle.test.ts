@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createThrottle } from "@/lib/throttle";
+
+describe("createThrottle", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("blocks a key once it reaches the limit within the window", () => {
+    const throttle = createThrottle(3, 60_000);
+    throttle.recordFailure("a");
+    throttle.recordFailure("a");
+    expect(throttle.retryAfter("a")).toBe(0);
+    throttle.recordFailure("a");
+    expect(throttle.retryAfter("a")).toBe(60);
+    expect(throttle.retryAfter("b")).toBe(0);
+  });
+
+  it("counts the window from the first failure", () => {
+    const throttle = createThrottle(2, 60_000);
+    throttle.recordFailure("a");
+    vi.advanceTimersByTime(45_000);
+    throttle.recordFailure("a");
+    expect(throttle.retryAfter("a")).toBe(15);
+    vi.advanceTimersByTime(15_000);
+    expect(throttle.retryAfter("a")).toBe(0);
+    throttle.recordFailure("a");
+    expect(throttle.retryAfter("a")).toBe(0);
+  });
+
+  it("drops expired keys, then the oldest ones, to stay within maxKeys", () => {
+    const throttle = createThrottle(1, 60_000, 2);
+    throttle.recordFailure("a");
+    vi.advanceTimersByTime(30_000);
+    throttle.recordFailure("b");
+    throttle.recordFailure("c");
+    expect(throttle.retryAfter("a")).toBe(0);
+    expect(throttle.retryAfter("b")).toBe(60);
+    expect(throttle.retryAfter("c")).toBe(60);
+
+    vi.advanceTimersByTime(60_000);
+    throttle.recordFailure("d");
+    throttle.recordFailure("e");
+    expect(throttle.retryAfter("d")).toBe(60);
+    expect(throttle.retryAfter("e")).toBe(60);
+  });
+
+  it("forgets a key on reset", () => {
+    const throttle = createThrottle(1, 60_000);
+    throttle.recordFailure("a");
+    throttle.reset("a");
+    expect(throttle.retryAfter("a")).toBe(0);
+  });
+});
@@ -0,0 +1,58 @@
+// Keys tracked at most; past that, expired entries are swept and then the oldest dropped
+const DEFAULT_MAX_KEYS = 10_000;
+
+// Fixed-window failure counter, kept in memory per server instance
+export function createThrottle(
+  limit: number,
+  windowMs: number,
+  maxKeys: number = DEFAULT_MAX_KEYS
+) {
+  const failures = new Map<string, { count: number; resetAt: number }>();
+
+  const current = (key: string) => {
+    const entry = failures.get(key);
+    if (entry && entry.resetAt <= Date.now()) {
+      failures.delete(key);
+      return undefined;
+    }
+    return entry;
+  };
+
+  // Make room for a new key, so that many distinct keys cannot grow the map without bound
+  const makeRoom = () => {
+    const now = Date.now();
+    failures.forEach((entry, key) => {
+      if (entry.resetAt <= now) {
+        failures.delete(key);
+      }
+    });
+    // Windows are fixed, so the first key in insertion order is the one to expire next
+    while (failures.size >= maxKeys) {
+      failures.delete(failures.keys().next().value!);
+    }
+  };
+
+  return {
+    // Seconds until the key may try again, or 0 when it is not blocked
+    retryAfter(key: string) {
+      const entry = current(key);
+      return entry && entry.count >= limit
+        ? Math.ceil((entry.resetAt - Date.now()) / 1000)
+        : 0;
+    },
+    recordFailure(key: string) {
+      const entry = current(key);
+      if (entry) {
+        entry.count++;
+        return;
+      }
+      if (failures.size >= maxKeys) {
+        makeRoom();
+      }
+      failures.set(key, { count: 1, resetAt: Date.now() + windowMs });
+    },
+    reset(key: string) {
+      failures.delete(key);
+    },
+  };
+}
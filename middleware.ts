@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { VISITOR_COOKIE } from '@/lib/targeting'
+
+const VISITOR_COOKIE_MAX_AGE = 365 * 24 * 60 * 60
+
+// Whether the visited short link has expired, as reported by /api/status
+async function isExpiredLink(request: NextRequest) {
+  const shortCode = request.nextUrl.pathname.slice(1)
+  try {
+    const response = await fetch(new URL(`/api/status/${shortCode}`, request.url), {
+      cache: 'no-store',
+    })
+    return response.ok && (await response.json()).expired === true
+  } catch (error) {
+    console.error('Error checking link status:', error)
+    return false
+  }
+}
+
+// Serve expired links with 410 Gone (pages cannot set a status code, a rewrite can),
+// and give visitors of short links an id, so sticky A/B tests can serve them the same
+// variant again. Pages cannot set cookies either, so it is set here and passed on to
+// the page with the request.
+export async function middleware(request: NextRequest) {
+  let visitorId: string | null = null
+  if (!request.cookies.has(VISITOR_COOKIE)) {
+    visitorId = crypto.randomUUID()
+    request.cookies.set(VISITOR_COOKIE, visitorId)
+  }
+
+  const init = { request: { headers: request.headers } }
+  const response = (await isExpiredLink(request))
+    ? NextResponse.rewrite(request.nextUrl, { ...init, status: 410 })
+    : NextResponse.next(init)
+  if (visitorId) {
+    response.cookies.set(VISITOR_COOKIE, visitorId, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      maxAge: VISITOR_COOKIE_MAX_AGE,
+      path: '/',
+    })
+  }
+  return response
+}
+
+// Short links only: a single segment of the characters short codes and aliases
+// are made of, which leaves out static files (e.g. /favicon.ico), preview pages
+// (/<code>+) and the reserved top-level paths (see isReservedCode)
+export const config = {
+  matcher: '/((?!(?:api|_next|static|public|admin)$)[A-Za-z0-9_-]+)',
+}